@@ -1,6 +1,30 @@
 import { supabase } from './supabase'
-import { processGrade } from '../lib/scheduler'
-import { evaluateMcq } from '../lib/answer-evaluator'
+import {
+  processGrade, processEarlyReview, balanceInterval, fuzzRange, intervalModifierForRetention, DEFAULT_SCHEDULER_OPTIONS,
+} from '../lib/scheduler'
+import type { DueLoad, ScheduleResult, SchedulerOverrides } from '../lib/scheduler'
+import { evaluateChoice, evaluateTyped, isShortAnswer } from '../lib/answer-evaluator'
+import type { EvalResult, TypedEvalResult } from '../lib/answer-evaluator'
+import type { ReviewLogEntry } from '../lib/optimizer'
+import { DEFAULT_GRADE_DISTRIBUTIONS } from '../lib/forecast'
+import { CORRECTNESS_GRADE, CORRECTNESS_SCORE, sampleExamCards, scoreExam } from '../lib/exam'
+import { clozeAnswer, clozeIndices, clozePrompt } from '../lib/cloze'
+import { choiceQuestion, isChoiceType, splitSelection } from '../lib/mcq'
+import { letterHint, sourceSentenceHint } from '../lib/hints'
+import type { HintLevel } from '../lib/hints'
+import type { ForecastCard, ForecastInput, GradeDistribution } from '../lib/forecast'
+import { LEECH_TAG, DEFAULT_LEECH_THRESHOLD, addTag, removeTag, hasTag, isLeechLapse } from '../lib/leech'
+import type { LeechAction } from '../lib/leech'
+import type { GeneratedQuestion } from '../lib/question-generator'
+import {
+  deviceTimeZone, isValidTimeZone, studyDayStart, studyDayStartOf, nextStudyDayStart, studyDayKey, studyDaysBetween,
+  addStudyDays,
+} from '../lib/study-day'
+import type { DayConfig } from '../lib/study-day'
+import type {
+  Card, DailyQuota, DeckPreset, ExamAnswer, ExamConfig, ExamResult, ExamResultItem, ExamSession, ExamSummary,
+  GradeResult, ResumedSession, SessionFilter, SessionPreset, SessionProgress, SourceRetention, StudyMode, Vacation,
+} from '../types'
 
 // ── Content / Import ──
 
@@ -149,22 +173,7 @@ export async function generateQuestions(
 
       // Save cards to DB
       if (questions.length > 0) {
-        const cardRows = questions.map(q => ({
-          topic_id: topic.id,
-          question_type: q.question_type,
-          difficulty_tier: q.difficulty_tier,
-          question_text: q.question_text,
-          answer_text: q.answer_text,
-          options_json: q.options ? JSON.stringify(q.options) : null,
-          explanation: q.explanation || null,
-        }))
-
-        const { error: cardErr } = await supabase.from('cards').insert(cardRows)
-        if (cardErr) {
-          errors.push({ topic: topic.title, error: cardErr.message })
-        } else {
-          totalCards += questions.length
-        }
+        totalCards += await insertQuestions(topic.id, questions)
       }
     } catch (e: any) {
       errors.push({ topic: topic.title, error: e.message })
@@ -188,7 +197,7 @@ export async function generateQuestions(
 export async function getSources() {
   const { data, error } = await supabase
     .from('content_sources')
-    .select('id, filename, file_type, status, error_message, import_date')
+    .select('id, filename, file_type, status, error_message, import_date, preset_id, desired_retention')
     .order('import_date', { ascending: false })
 
   if (error) throw new Error(error.message)
@@ -216,121 +225,289 @@ export async function deleteSource(sourceId: number) {
 }
 
 export async function getSourcesSummary() {
-  const { data, error } = await supabase.rpc('get_sources_summary')
+  const day = getDayConfig(await getSettings())
+  const { data, error } = await supabase.rpc('get_sources_summary', {
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
   if (error) throw new Error(error.message)
   return data || []
 }
 
 // ── Study ──
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
 let currentSessionId: number | null = null
-let sessionCardsStudied = 0
-let sessionCardsCorrect = 0
-let sessionTotalTimeMs = 0
+let sessionMode: StudyMode = 'standard'
+
+// Cards pulled into a review-ahead or preview session at most
+const EXTRA_SESSION_LIMIT = 100
+// Custom sessions: default and largest number of cards
+const CUSTOM_SESSION_LIMIT = 50
+const MAX_CUSTOM_SESSION_LIMIT = 500
+// An active session idle this long is abandoned rather than resumed
+const SESSION_IDLE_MINUTES = 6 * 60
+
+// A sibling buried by a grade, with the buried_until it had before
+interface BuriedSibling {
+  id: number
+  buried_until: string | null
+}
+
+// Which siblings a grade buries, and until when
+interface SiblingBurial {
+  states: string[]
+  until: string
+}
+
+// Everything the most recent grade changed, so it can be undone.
+// card is null for preview grades, which never change the card.
+interface GradeUndo {
+  cardId: number
+  historyId: number
+  card: Record<string, any> | null
+  buried: BuriedSibling[]
+}
+let lastGrade: GradeUndo | null = null
+
+// Card columns a grade can change
+const GRADED_FIELDS = [
+  'card_state', 'ease_factor', 'step_index', 'interval_days', 'due_date', 'stability', 'difficulty',
+  'last_reviewed_at', 'review_count', 'lapse_count', 'tags', 'is_suspended',
+] as const
+
+// Insert a study_sessions row and reset the per-session state. Starting a
+// session abandons others left idle past SESSION_IDLE_MINUTES; one still in
+// use in another tab stays active.
+async function openSession(mode: StudyMode, fields: Record<string, any> = {}): Promise<number> {
+  const { error: sweepErr } = await supabase.rpc('abandon_stale_sessions', { p_idle_minutes: SESSION_IDLE_MINUTES })
+  if (sweepErr) throw new Error(sweepErr.message)
 
-export async function createStudySession() {
   const { data: session, error: sessErr } = await supabase
     .from('study_sessions')
-    .insert({ status: 'active' })
+    .insert({ status: 'active', session_type: mode, ...fields })
     .select('id')
     .single()
 
   if (sessErr) throw new Error(sessErr.message)
   currentSessionId = session.id
-  sessionCardsStudied = 0
-  sessionCardsCorrect = 0
-  sessionTotalTimeMs = 0
+  sessionMode = mode
+  lastGrade = null
   return session.id
 }
 
-export async function startStudySession(sourceId?: number, topicId?: number, dueOnly?: boolean) {
-  // Create session
-  const { data: session, error: sessErr } = await supabase
-    .from('study_sessions')
-    .insert({ status: 'active' })
-    .select('id')
-    .single()
+export async function createStudySession() {
+  return openSession('standard')
+}
 
-  if (sessErr) throw new Error(sessErr.message)
-  currentSessionId = session.id
-  sessionCardsStudied = 0
-  sessionCardsCorrect = 0
-  sessionTotalTimeMs = 0
+// The session row is only opened once the queue turns out to have cards
+export async function startStudySession(
+  sourceId?: number,
+  topicId?: number,
+  dueOnly?: boolean,
+  mode: StudyMode = 'standard',
+  aheadDays: number = 1,
+) {
+  if (mode === 'review_ahead' || mode === 'preview') {
+    const extraCards = mode === 'review_ahead'
+      ? await getReviewAheadCards(aheadDays, sourceId, topicId)
+      : await getPreviewCards(sourceId, topicId)
+    return {
+      session_id: extraCards.length ? await openSession(mode) : null,
+      cards: flattenSessionCards(extraCards),
+      total_available: extraCards.length,
+    }
+  }
 
-  // Get cards: learning/relearning due → review due → new
-  const now = new Date().toISOString()
-  const limit = 20
+  // Learning/relearning due → review due → new, within today's quota, built server-side
+  //   (skip learning when dueOnly — dashboard due_count only counts review+relearning)
+  const settings = await getSettings()
+  const day = getDayConfig(settings)
+  const { data: queue, error: queueErr } = await supabase.rpc('get_study_queue', {
+    p_source_id: sourceId ?? null,
+    p_topic_id: topicId ?? null,
+    p_due_only: !!dueOnly,
+    p_review_order: settings.review_order ?? 'due',
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
+
+  if (queueErr) throw new Error(queueErr.message)
+  const flatCards: Card[] = queue || []
 
-  let cards: any[] = []
+  return {
+    session_id: flatCards.length ? await openSession(mode) : null,
+    cards: flatCards,
+    total_available: flatCards.length,
+  }
+}
+
+/**
+ * Start a session on the cards matching `filter`. The filter is saved on the
+ * session row. Cards that aren't due yet are graded as early reviews, so
+ * studying them doesn't inflate their intervals. No session row is opened
+ * when nothing matches.
+ */
+export async function startCustomSession(filter: SessionFilter) {
+  const now = new Date()
+  const limit = Math.min(Math.max(filter.limit ?? CUSTOM_SESSION_LIMIT, 1), MAX_CUSTOM_SESSION_LIMIT)
 
-  // 1. Learning/relearning cards due now (skip learning when dueOnly — dashboard due_count only counts review+relearning)
   let query = supabase
     .from('cards')
-    .select('*, topics(title, source_id, content_sources:source_id(filename))')
-    .in('card_state', dueOnly ? ['relearning'] : ['learning', 'relearning'])
+    .select('*, topics!inner(title, source_id, content_sources:source_id(filename))')
     .eq('is_suspended', false)
-    .lte('due_date', now)
-    .limit(limit)
+
+  if (filter.topic_id) query = query.eq('topic_id', filter.topic_id)
+  else if (filter.source_id) query = query.eq('topics.source_id', filter.source_id)
+  if (filter.difficulty_tiers?.length) query = query.in('difficulty_tier', filter.difficulty_tiers)
+  if (filter.question_types?.length) query = query.in('question_type', filter.question_types)
+  if (filter.card_states?.length) query = query.in('card_state', filter.card_states)
+  if (filter.min_lapses) query = query.gte('lapse_count', filter.min_lapses)
+  if (filter.added_within_days) {
+    query = query.gte('created_at', new Date(now.getTime() - filter.added_within_days * DAY_MS).toISOString())
+  }
+  if (filter.due_only) query = query.or(`due_date.is.null,due_date.lte.${now.toISOString()}`)
+
+  if (filter.failed_within_days) {
+    const { data: failed, error: failErr } = await supabase
+      .from('review_history')
+      .select('card_id')
+      .eq('grade', 0)
+      .eq('is_preview', false)
+      .gte('reviewed_at', new Date(now.getTime() - filter.failed_within_days * DAY_MS).toISOString())
+
+    if (failErr) throw new Error(failErr.message)
+    query = query.in('id', Array.from(new Set((failed || []).map((r) => r.card_id))))
+  }
+
+  // Tags are a comma-separated column: narrow with ILIKE here, match whole tags below
+  const tags = (filter.tags || []).map((t) => t.trim()).filter(Boolean)
+  //   (each pattern double-quoted, so commas, dots and parentheses in a tag can't break the filter)
+  if (tags.length) query = query.or(tags.map((t) => `tags.ilike."*${t.replace(/["\\]/g, '\\$&')}*"`).join(','))
+
+  const { data, error } = await query
+    .order('due_date', { ascending: true, nullsFirst: false })
+    .limit(tags.length ? MAX_CUSTOM_SESSION_LIMIT : limit)
+
+  if (error) throw new Error(error.message)
+  const matched = (data || [])
+    .filter((c) => !tags.length || tags.some((t) => hasTag(c.tags, t)))
+    .slice(0, limit)
+
+  const scope = filter.topic_id ? { topic_id: filter.topic_id } : filter.source_id ? { source_id: filter.source_id } : null
+  const flatCards = flattenSessionCards(matched)
+  const sessionId = flatCards.length
+    ? await openSession('custom', {
+        topic_filter: scope ? JSON.stringify(scope) : null,
+        settings_json: JSON.stringify(filter),
+      })
+    : null
+
+  return {
+    session_id: sessionId,
+    cards: flatCards,
+    total_available: flatCards.length,
+  }
+}
+
+// Flatten the joined topic/source data
+function flattenSessionCards(cards: any[]) {
+  return cards.map(c => ({
+    ...c,
+    topic_title: c.topics?.title || 'Unknown Topic',
+    source_id: c.topics?.source_id,
+    source_filename: c.topics?.content_sources?.filename,
+    topics: undefined,
+  }))
+}
+
+// Review cards due after today but within the next `days` study days, soonest first
+async function getReviewAheadCards(days: number, sourceId?: number, topicId?: number) {
+  const now = new Date()
+  const day = getDayConfig(await getSettings())
+  const until = nextStudyDayStart(new Date(now.getTime() + Math.max(days, 1) * DAY_MS), day)
+
+  let query = supabase
+    .from('cards')
+    .select('*, topics!inner(title, source_id, content_sources:source_id(filename))')
+    .eq('card_state', 'review')
+    .eq('is_suspended', false)
+    .gte('due_date', nextStudyDayStart(now, day).toISOString())
+    .lt('due_date', until.toISOString())
+    .order('due_date')
+    .limit(EXTRA_SESSION_LIMIT)
 
   if (topicId) query = query.eq('topic_id', topicId)
   else if (sourceId) query = query.eq('topics.source_id', sourceId)
 
-  const { data: learningCards } = await query
-  if (learningCards) cards.push(...learningCards)
+  const { data, error } = await query
+  if (error) throw new Error(error.message)
+  return data || []
+}
 
-  // 2. Review cards due
-  let remaining = limit - cards.length
-  if (remaining > 0) {
-    let q2 = supabase
+// Any unsuspended cards, new ones first, for previewing or cramming
+async function getPreviewCards(sourceId?: number, topicId?: number) {
+  const cards: any[] = []
+  for (const isNew of [true, false]) {
+    let query = supabase
       .from('cards')
-      .select('*, topics(title, source_id, content_sources:source_id(filename))')
-      .eq('card_state', 'review')
+      .select('*, topics!inner(title, source_id, content_sources:source_id(filename))')
       .eq('is_suspended', false)
-      .lte('due_date', now)
-      .limit(remaining)
+      .order('id')
+      .limit(EXTRA_SESSION_LIMIT - cards.length)
+    query = isNew ? query.eq('card_state', 'new') : query.neq('card_state', 'new')
 
-    if (topicId) q2 = q2.eq('topic_id', topicId)
-    else if (sourceId) q2 = q2.eq('topics.source_id', sourceId)
+    if (topicId) query = query.eq('topic_id', topicId)
+    else if (sourceId) query = query.eq('topics.source_id', sourceId)
 
-    const { data: dueCards } = await q2
-    if (dueCards) cards.push(...dueCards)
+    const { data, error } = await query
+    if (error) throw new Error(error.message)
+    cards.push(...(data || []))
+    if (cards.length >= EXTRA_SESSION_LIMIT) break
   }
+  return cards
+}
 
-  // 3. New cards (skip when dueOnly)
-  remaining = limit - cards.length
-  if (remaining > 0 && !dueOnly) {
-    let q3 = supabase
-      .from('cards')
-      .select('*, topics(title, source_id, content_sources:source_id(filename))')
-      .eq('card_state', 'new')
-      .eq('is_suspended', false)
-      .limit(remaining)
+/** Today's new/review budget: the Settings limits minus what review_history shows was already done. */
+export async function getDailyQuota(): Promise<DailyQuota> {
+  const settings = await getSettings()
+  const newLimit = settings.daily_new_card_limit ?? 20
+  const reviewLimit = settings.daily_review_limit ?? 200
 
-    if (topicId) q3 = q3.eq('topic_id', topicId)
-    else if (sourceId) q3 = q3.eq('topics.source_id', sourceId)
+  const startOfDay = studyDayStart(new Date(), getDayConfig(settings))
 
-    const { data: newCards } = await q3
-    if (newCards) cards.push(...newCards)
+  const countToday = async (state: string) => {
+    const { count, error } = await supabase
+      .from('review_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('previous_state', state)
+      .eq('is_preview', false)
+      .gte('reviewed_at', startOfDay.toISOString())
+
+    if (error) throw new Error(error.message)
+    return count ?? 0
   }
 
-  // Flatten the joined data
-  const flatCards = cards.map(c => ({
-    ...c,
-    topic_title: c.topics?.title || 'Unknown Topic',
-    source_id: c.topics?.source_id,
-    source_filename: c.topics?.content_sources?.filename,
-    topics: undefined,
-  }))
+  const [newDone, reviewsDone] = await Promise.all([countToday('new'), countToday('review')])
 
   return {
-    session_id: session.id,
-    cards: flatCards,
-    total_available: flatCards.length,
+    new_limit: newLimit,
+    review_limit: reviewLimit,
+    new_done: newDone,
+    reviews_done: reviewsDone,
+    new_remaining: Math.max(newLimit - newDone, 0),
+    review_remaining: Math.max(reviewLimit - reviewsDone, 0),
   }
 }
 
 export async function getTopicStats(sourceId: number) {
-  const { data, error } = await supabase.rpc('get_topic_stats', { p_source_id: sourceId })
+  const day = getDayConfig(await getSettings())
+  const { data, error } = await supabase.rpc('get_topic_stats', {
+    p_source_id: sourceId,
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
   if (error) throw new Error(error.message)
   return data || []
 }
@@ -351,78 +528,181 @@ export async function getStudyCards(limit: number = 20) {
   return { cards: [], total_available: 0 }
 }
 
-export async function gradeCard(cardId: number, grade: number, timeTakenMs?: number) {
+export async function gradeCard(cardId: number, grade: number, timeTakenMs?: number, hintsUsed: number = 0): Promise<GradeResult> {
+  return applyGrade(cardId, grade, timeTakenMs, sessionMode, hintsUsed)
+}
+
+// Sessions whose cards may not be due yet: their grades credit only the time
+// that has passed since the last review
+export function gradesAsEarlyReview(mode: StudyMode): boolean {
+  return mode === 'review_ahead' || mode === 'custom' || mode === 'exam'
+}
+
+// Grade a card the way a session of the given type does
+async function applyGrade(
+  cardId: number,
+  grade: number,
+  timeTakenMs: number | undefined,
+  mode: StudyMode,
+  hintsUsed: number = 0,
+): Promise<GradeResult> {
   // Get current card
   const { data: card, error: cardErr } = await supabase
     .from('cards')
-    .select('card_state, ease_factor, step_index, interval_days')
+    .select('topic_id, card_state, ease_factor, step_index, interval_days, due_date, stability, difficulty, last_reviewed_at, review_count, lapse_count, tags, is_suspended, topics(source_id)')
     .eq('id', cardId)
     .single()
 
   if (cardErr || !card) throw new Error('Card not found')
 
-  // Run scheduler
-  const result = processGrade(card, grade)
+  const now = new Date()
+  const preview = mode === 'preview'
+  const settings = await getSettings()
+
+  // Preview/cram grades are only logged: the card's schedule stays exactly as it was
+  let result: ScheduleResult | null = null
+  let leech: LeechAction | null = null
+  let bury: SiblingBurial | null = null
+  if (!preview) {
+    // Run scheduler with the card's deck preset
+    const options = await getSchedulerOptions((card.topics as any)?.source_id)
+    result = gradesAsEarlyReview(mode)
+      ? processEarlyReview(card, grade, now, options)
+      : processGrade(card, grade, now, options)
+
+    // Spread reviews out: move to the least-loaded day around the scheduled one
+    const range = result.card_state === 'review' ? fuzzRange(result.interval_days, options) : null
+    if (range) {
+      const load = await getDueLoad(now, range[0], range[1])
+      result = balanceInterval(result, now, load, options)
+    }
 
-  // Update card
-  const { error: updateErr } = await supabase
-    .from('cards')
-    .update({
+    if (grade === 0 && card.card_state === 'review') leech = leechAction(settings, card.lapse_count + 1)
+    bury = siblingBurial(settings, now)
+  }
+
+  // Card, siblings, review_history and session totals are written in one transaction
+  const { data, error } = await supabase.rpc('grade_card', {
+    p_card_id: cardId,
+    p_session_id: currentSessionId,
+    p_grade: grade,
+    p_time_taken_ms: timeTakenMs || null,
+    p_reviewed_at: now.toISOString(),
+    p_schedule: result && {
       card_state: result.card_state,
       ease_factor: result.ease_factor,
       interval_days: result.interval_days,
       step_index: result.step_index,
       due_date: result.due_date,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', cardId)
+      stability: result.stability ?? null,
+      difficulty: result.difficulty ?? null,
+    },
+    p_tags: leech ? addTag(card.tags, LEECH_TAG) : null,
+    p_suspend: leech === 'suspend',
+    p_bury_until: bury?.until ?? null,
+    p_bury_states: bury?.states ?? null,
+    p_hints_used: hintsUsed,
+  })
 
-  if (updateErr) throw new Error(updateErr.message)
+  if (error) throw new Error(error.message)
+
+  const updated: Card = data.card
+  const buried: BuriedSibling[] = data.buried || []
 
-  // Increment review count and lapse count if needed
-  if (grade === 0 && card.card_state === 'review') {
-    await supabase.rpc('increment_card_lapse', { p_card_id: cardId })
+  lastGrade = {
+    cardId,
+    historyId: data.history_id,
+    card: preview ? null : Object.fromEntries(GRADED_FIELDS.map((field) => [field, data.previous[field]])),
+    buried,
   }
-  await supabase.rpc('increment_card_review', { p_card_id: cardId })
 
-  // Record review history
-  await supabase.from('review_history').insert({
+  return {
     card_id: cardId,
-    session_id: currentSessionId,
-    grade,
-    previous_interval: card.interval_days,
-    new_interval: result.interval_days,
-    previous_ease: card.ease_factor,
-    new_ease: result.ease_factor,
-    time_taken_ms: timeTakenMs || null,
+    new_state: updated.card_state,
+    new_interval: updated.interval_days,
+    new_ease: updated.ease_factor,
+    new_step_index: updated.step_index,
+    new_stability: updated.stability,
+    new_difficulty: updated.difficulty,
+    due_date: updated.due_date ?? '',
+    reviewed_at: now.toISOString(),
+    leech,
+    buried_ids: buried.map((c) => c.id),
+    preview,
+  }
+}
+
+export function canUndoGrade(): boolean {
+  return lastGrade !== null
+}
+
+/**
+ * Reverse the most recent grade: restore the card's scheduling fields and
+ * counters, unbury the siblings it buried, delete its review_history row and
+ * take it back out of the session totals. Returns the card id.
+ */
+export async function undoLastGrade(): Promise<number> {
+  if (!lastGrade) throw new Error('Nothing to undo')
+  const undo = lastGrade
+
+  const { error } = await supabase.rpc('undo_grade', {
+    p_history_id: undo.historyId,
+    p_card: undo.card,
+    p_buried: undo.buried,
   })
 
-  // Update session stats
-  sessionCardsStudied += 1
-  if (grade >= 2) sessionCardsCorrect += 1
-  if (timeTakenMs) sessionTotalTimeMs += timeTakenMs
+  if (error) throw new Error(error.message)
 
-  if (currentSessionId) {
-    await supabase
-      .from('study_sessions')
-      .update({
-        cards_studied: sessionCardsStudied,
-        cards_correct: sessionCardsCorrect,
-        total_time_ms: sessionTotalTimeMs,
-      })
-      .eq('id', currentSessionId)
-  }
+  lastGrade = null
+  return undo.cardId
+}
 
-  return {
-    card_id: cardId,
-    new_state: result.card_state,
-    new_interval: result.interval_days,
-    new_ease: result.ease_factor,
-    due_date: result.due_date,
+// Review cards already due on each study day between now+fromDays and now+toDays
+async function getDueLoad(now: Date, fromDays: number, toDays: number): Promise<DueLoad> {
+  const day = getDayConfig(await getSettings())
+  const from = studyDayStart(new Date(now.getTime() + fromDays * DAY_MS), day)
+  const to = nextStudyDayStart(new Date(now.getTime() + toDays * DAY_MS), day)
+
+  const { data, error } = await supabase.rpc('get_due_counts', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
+
+  if (error) throw new Error(error.message)
+
+  // Re-key from study day dates to days from today
+  const today = studyDayKey(now, day)
+  const load: DueLoad = {}
+  for (const [date, count] of Object.entries<number>(data || {})) {
+    load[studyDaysBetween(today, date)] = count
   }
+  return load
+}
+
+// Hide the studied card's topic siblings until tomorrow, so one card can't give
+// away another's answer. New siblings are buried unless turned off; review
+// siblings only when turned on, since a topic's due reviews would otherwise
+// take a day each. Null when neither is.
+function siblingBurial(settings: Record<string, any>, now: Date): SiblingBurial | null {
+  const states: string[] = []
+  if (settings.bury_new_siblings ?? true) states.push('new')
+  if (settings.bury_review_siblings ?? false) states.push('review')
+  if (states.length === 0) return null
+  return { states, until: nextStudyDayStart(now, getDayConfig(settings)).toISOString() }
+}
+
+// What to do with a card whose lapses just reached lapseCount: tag it (and
+// optionally suspend it) when that hits the leech threshold, otherwise null.
+function leechAction(settings: Record<string, any>, lapseCount: number): LeechAction | null {
+  const threshold = settings.leech_threshold ?? DEFAULT_LEECH_THRESHOLD
+  if (!isLeechLapse(lapseCount, threshold)) return null
+  return settings.leech_action === 'suspend' ? 'suspend' : 'tag'
 }
 
 export async function endStudySession() {
+  lastGrade = null
   if (currentSessionId) {
     await supabase
       .from('study_sessions')
@@ -432,6 +712,196 @@ export async function endStudySession() {
   }
 }
 
+/** Save where the current session's queue stands, so a reload can resume it. */
+export async function saveSessionProgress(progress: SessionProgress) {
+  if (!currentSessionId) return
+  const { error } = await supabase
+    .from('study_sessions')
+    .update({ queue_json: JSON.stringify(progress), position: progress.index })
+    .eq('id', currentSessionId)
+
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Pick the most recent unfinished session back up after a reload. Sessions
+ * idle for longer than SESSION_IDLE_MINUTES are marked abandoned first (their
+ * partial stats stay on the row) and are not resumed. Returns null when there
+ * is nothing to resume.
+ */
+export async function resumeStudySession(): Promise<ResumedSession | null> {
+  const { error: sweepErr } = await supabase.rpc('abandon_stale_sessions', { p_idle_minutes: SESSION_IDLE_MINUTES })
+  if (sweepErr) throw new Error(sweepErr.message)
+
+  const { data: session, error } = await supabase
+    .from('study_sessions')
+    .select('id, session_type, queue_json, position, cards_studied, cards_correct')
+    .eq('status', 'active')
+    .not('queue_json', 'is', null)
+    .order('last_activity_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  if (!session) return null
+
+  const progress: SessionProgress = JSON.parse(session.queue_json)
+  const ids = Array.from(new Set([...progress.card_ids, ...progress.pending_ids]))
+  const { data: rows, error: cardErr } = await supabase
+    .from('cards')
+    .select('*, topics(title, source_id, content_sources:source_id(filename))')
+    .in('id', ids)
+
+  if (cardErr) throw new Error(cardErr.message)
+
+  // Cards deleted since the reload drop out; keep the position on the same card where possible
+  const byId = new Map(flattenSessionCards(rows || []).map((c) => [c.id, c as Card]))
+  const cards = progress.card_ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!)
+  const pending = progress.pending_ids.filter((id) => byId.has(id)).map((id) => byId.get(id)!)
+  const index = progress.card_ids.slice(0, progress.index).filter((id) => byId.has(id)).length
+
+  currentSessionId = session.id
+  sessionMode = session.session_type
+  lastGrade = null
+
+  return {
+    session_id: session.id,
+    mode: session.session_type,
+    cards,
+    pending,
+    index,
+    topic_scoped: progress.topic_scoped,
+    cards_studied: session.cards_studied,
+    cards_correct: session.cards_correct,
+  }
+}
+
+// ── Exams ──
+
+// Cards an exam samples from at most
+const EXAM_CANDIDATE_LIMIT = 2000
+const MAX_EXAM_QUESTIONS = 200
+
+/**
+ * Assemble a timed exam: `question_count` cards sampled across the topics of
+ * the chosen sources, MCQ-heavy per `mcq_share`. The config is saved on the
+ * session; the deadline starts now.
+ */
+export async function startExamSession(config: ExamConfig): Promise<ExamSession> {
+  if (!config.source_ids.length) throw new Error('Choose at least one subject')
+  const count = Math.min(Math.max(Math.round(config.question_count), 1), MAX_EXAM_QUESTIONS)
+
+  const { data, error } = await supabase
+    .from('cards')
+    .select('*, topics!inner(title, source_id, content_sources:source_id(filename))')
+    .eq('is_suspended', false)
+    .in('topics.source_id', config.source_ids)
+    .limit(EXAM_CANDIDATE_LIMIT)
+
+  if (error) throw new Error(error.message)
+  const cards = flattenSessionCards(sampleExamCards(data || [], count, config.mcq_share)) as Card[]
+  if (cards.length === 0) throw new Error('No cards in the chosen subjects')
+
+  const saved: ExamConfig = { ...config, question_count: cards.length }
+  const sessionId = await openSession('exam', { settings_json: JSON.stringify(saved) })
+
+  return {
+    session_id: sessionId,
+    config: saved,
+    cards,
+    deadline: new Date(Date.now() + config.time_limit_minutes * 60 * 1000).toISOString(),
+  }
+}
+
+/**
+ * Mark a finished exam. MCQs are checked locally, other answers by the AI
+ * evaluator (an answer it can't check counts as incorrect). Every answer is
+ * stored in exam_answers and graded through the scheduler: as an early review
+ * when the exam was set to update the schedule, as a preview grade otherwise.
+ * Safe to retry after a failure: cards this exam already graded aren't graded
+ * again, and the answers are upserted.
+ */
+export async function submitExam(exam: ExamSession, answers: ExamAnswer[]): Promise<ExamResult> {
+  const byCard = new Map(answers.map((a) => [a.card_id, a]))
+  const mode: StudyMode = exam.config.update_schedule ? 'exam' : 'preview'
+  const items: ExamResultItem[] = []
+
+  const { data: logged, error: loggedErr } = await supabase
+    .from('review_history')
+    .select('card_id')
+    .eq('session_id', exam.session_id)
+
+  if (loggedErr) throw new Error(loggedErr.message)
+  const graded = new Set((logged || []).map((r) => r.card_id))
+
+  for (const card of exam.cards) {
+    const answer = byCard.get(card.id)
+    const userAnswer = answer?.user_answer.trim() ?? ''
+    let item: ExamResultItem = { card, user_answer: userAnswer, correctness: 'incorrect', feedback: 'Not answered.' }
+    if (userAnswer) {
+      try {
+        const result = await checkAnswer(card.id, userAnswer)
+        item = { ...item, correctness: result.correctness, feedback: result.feedback }
+      } catch (e: any) {
+        item = { ...item, feedback: `Could not be checked: ${e.message}` }
+      }
+    }
+    items.push(item)
+
+    if (!graded.has(card.id)) {
+      await applyGrade(card.id, CORRECTNESS_GRADE[item.correctness], answer?.time_taken_ms, mode)
+    }
+  }
+
+  const { error } = await supabase.from('exam_answers').upsert(items.map((item, position) => ({
+    session_id: exam.session_id,
+    card_id: item.card.id,
+    position,
+    user_answer: item.user_answer || null,
+    correctness: item.correctness,
+    score: CORRECTNESS_SCORE[item.correctness],
+    feedback: item.feedback,
+    time_taken_ms: byCard.get(item.card.id)?.time_taken_ms ?? null,
+  })), { onConflict: 'session_id,position' })
+
+  if (error) throw new Error(error.message)
+  await endStudySession()
+
+  return {
+    session_id: exam.session_id,
+    report: scoreExam(items.map((item) => ({
+      topic_title: item.card.topic_title || 'Unknown Topic',
+      difficulty_tier: item.card.difficulty_tier,
+      correctness: item.correctness,
+    }))),
+    items,
+  }
+}
+
+/** Completed exams, most recent first. */
+export async function getExamHistory(limit: number = 20): Promise<ExamSummary[]> {
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .select('id, started_at, settings_json, exam_answers(score)')
+    .eq('session_type', 'exam')
+    .eq('status', 'completed')
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(error.message)
+  return (data || []).map((s) => {
+    const scores = (s.exam_answers || []).map((a: { score: number }) => a.score)
+    const total = scores.reduce((sum: number, x: number) => sum + x, 0)
+    return {
+      session_id: s.id,
+      started_at: s.started_at,
+      source_ids: JSON.parse(s.settings_json || '{}').source_ids || [],
+      questions: scores.length,
+      score_pct: scores.length ? Math.round((total / scores.length) * 100) : 0,
+    }
+  })
+}
+
 // ── Cards ──
 
 export async function getAllCards() {
@@ -452,17 +922,81 @@ export async function getAllCards() {
 }
 
 export async function getCardStats() {
-  const { data, error } = await supabase.rpc('get_card_stats')
+  const day = getDayConfig(await getSettings())
+  const { data, error } = await supabase.rpc('get_card_stats', {
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
   if (error) throw new Error(error.message)
   return data
 }
 
 export async function getReports() {
-  const { data, error } = await supabase.rpc('get_reports')
+  const day = getDayConfig(await getSettings())
+  const { data, error } = await supabase.rpc('get_reports', {
+    p_timezone: day.timeZone,
+    p_rollover_hour: day.rolloverHour,
+  })
   if (error) throw new Error(error.message)
   return data
 }
 
+// Grade distributions need this many reviews per state before replacing the defaults
+const MIN_DISTRIBUTION_REVIEWS = 20
+
+/** Everything simulateWorkload needs: active cards, grade habits, limits and scheduler options. */
+export async function getForecastInput(): Promise<ForecastInput> {
+  const settings = await getSettings()
+
+  const pageSize = 1000
+  const cards: ForecastCard[] = []
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('cards')
+      .select('card_state, ease_factor, step_index, interval_days, stability, difficulty, last_reviewed_at, due_date, topics(source_id)')
+      .eq('is_suspended', false)
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) throw new Error(error.message)
+    for (const c of data || []) {
+      cards.push({ ...c, source_id: (c.topics as any)?.source_id ?? 0, topics: undefined } as ForecastCard)
+    }
+    if (!data || data.length < pageSize) break
+  }
+
+  const { data: counts, error: distErr } = await supabase.rpc('get_grade_distribution')
+  if (distErr) throw new Error(distErr.message)
+
+  const grades = { ...DEFAULT_GRADE_DISTRIBUTIONS }
+  for (const state of Object.keys(grades) as (keyof typeof grades)[]) {
+    const rows = (counts || []).filter((r: any) => r.previous_state === state)
+    const total = rows.reduce((sum: number, r: any) => sum + r.review_count, 0)
+    if (total < MIN_DISTRIBUTION_REVIEWS) continue
+    const dist: GradeDistribution = [0, 0, 0, 0]
+    for (const r of rows) dist[r.grade] = r.review_count / total
+    grades[state] = dist
+  }
+
+  const quota = await getDailyQuota()
+
+  const sourceIds = Array.from(new Set(cards.map((c) => c.source_id ?? 0)))
+  const options: ForecastInput['options'] = {}
+  for (const sourceId of sourceIds) {
+    options[sourceId] = await getSchedulerOptions(sourceId || undefined)
+  }
+
+  return {
+    cards,
+    grades,
+    newPerDay: settings.daily_new_card_limit ?? 20,
+    reviewsPerDay: settings.daily_review_limit ?? 200,
+    doneToday: { newCards: quota.new_done, reviews: quota.reviews_done },
+    options,
+    day: getDayConfig(settings),
+  }
+}
+
 export async function suspendCard(cardId: number) {
   const { error } = await supabase
     .from('cards')
@@ -539,37 +1073,507 @@ export async function mergeCards(cardIds: number[], mergedQuestion?: string, mer
   }
 }
 
-export async function checkAnswer(cardId: number, userAnswer: string) {
+// ── Cloze Notes ──
+
+// Save generated questions as cards. A cloze question becomes a note with one
+// card per deletion number. Returns how many cards were created.
+async function insertQuestions(topicId: number, questions: GeneratedQuestion[]): Promise<number> {
+  const plain = questions.filter((q) => q.question_type !== 'cloze')
+  let created = 0
+
+  if (plain.length > 0) {
+    const { error } = await supabase.from('cards').insert(plain.map(q => ({
+      topic_id: topicId,
+      question_type: q.question_type,
+      difficulty_tier: q.difficulty_tier,
+      question_text: q.question_text,
+      answer_text: q.answer_text,
+      options_json: q.options ? JSON.stringify(q.options) : null,
+      correct_options_json: q.correct_options ? JSON.stringify(q.correct_options) : null,
+      explanation: q.explanation || null,
+    })))
+
+    if (error) throw new Error(error.message)
+    created += plain.length
+  }
+
+  for (const q of questions.filter((q) => q.question_type === 'cloze')) {
+    const { data: note, error } = await supabase
+      .from('notes')
+      .insert({ topic_id: topicId, note_type: 'cloze', text: q.question_text, explanation: q.explanation || null })
+      .select('id')
+      .single()
+
+    if (error) throw new Error(error.message)
+    created += await syncClozeCards(note.id, topicId, q.question_text, q.explanation || null, q.difficulty_tier)
+  }
+
+  return created
+}
+
+// Bring a cloze note's cards in line with its text: one card per deletion
+// number. Cards whose number is still there keep their schedule, cards whose
+// number is gone are deleted and new numbers get new cards. Returns how many
+// cards were created.
+async function syncClozeCards(
+  noteId: number,
+  topicId: number,
+  text: string,
+  explanation: string | null,
+  difficultyTier: string,
+): Promise<number> {
+  const indices = clozeIndices(text)
+
+  const { data: existing, error } = await supabase
+    .from('cards')
+    .select('id, cloze_index')
+    .eq('note_id', noteId)
+
+  if (error) throw new Error(error.message)
+
+  const removed = (existing || []).filter((c) => !indices.includes(c.cloze_index))
+  if (removed.length > 0) {
+    const { error: delErr } = await supabase.from('cards').delete().in('id', removed.map((c) => c.id))
+    if (delErr) throw new Error(delErr.message)
+  }
+
+  const content = (index: number) => ({
+    question_type: 'cloze',
+    difficulty_tier: difficultyTier,
+    question_text: text,
+    answer_text: clozeAnswer(text, index),
+    options_json: null,
+    correct_options_json: null,
+    explanation,
+  })
+
+  for (const card of (existing || []).filter((c) => indices.includes(c.cloze_index))) {
+    await updateCard(card.id, content(card.cloze_index))
+  }
+
+  const have = new Set((existing || []).map((c) => c.cloze_index))
+  const added = indices.filter((i) => !have.has(i))
+  if (added.length > 0) {
+    const { error: insErr } = await supabase
+      .from('cards')
+      .insert(added.map((i) => ({ topic_id: topicId, note_id: noteId, cloze_index: i, ...content(i) })))
+
+    if (insErr) throw new Error(insErr.message)
+  }
+
+  return added.length
+}
+
+/**
+ * Save a card as a cloze note. A card that isn't cloze yet becomes the note's
+ * first card; the note's other cards are updated, added or deleted to match
+ * the deletions in `text`. Returns how many cards were created.
+ */
+export async function saveClozeCard(
+  cardId: number,
+  text: string,
+  explanation: string | null,
+  difficultyTier: string,
+): Promise<number> {
+  const indices = clozeIndices(text)
+  if (indices.length === 0) throw new Error('Mark at least one deletion, e.g. {{c1::answer}}')
+
+  const { data: card, error } = await supabase
+    .from('cards')
+    .select('topic_id, note_id, question_type')
+    .eq('id', cardId)
+    .single()
+
+  if (error || !card) throw new Error('Card not found')
+
+  // A reversible card turned into a cloze gets a note of its own
+  let noteId: number | null = card.question_type === 'cloze' ? card.note_id : null
+  if (noteId) {
+    const { error: noteErr } = await supabase
+      .from('notes')
+      .update({ text, explanation, updated_at: new Date().toISOString() })
+      .eq('id', noteId)
+
+    if (noteErr) throw new Error(noteErr.message)
+  } else {
+    const { data: note, error: noteErr } = await supabase
+      .from('notes')
+      .insert({ topic_id: card.topic_id, note_type: 'cloze', text, explanation })
+      .select('id')
+      .single()
+
+    if (noteErr) throw new Error(noteErr.message)
+    noteId = note.id
+    await updateCard(cardId, { note_id: noteId, cloze_index: indices[0], is_reverse: false })
+  }
+
+  return syncClozeCards(noteId!, card.topic_id, text, explanation, difficultyTier)
+}
+
+// ── Reverse Cards ──
+
+/**
+ * Give a card a reverse sibling asking its answer → question. Both become the
+ * forward and reverse cards of a new reversible note; the reverse card starts
+ * new. Returns the reverse card's id.
+ */
+export async function addReverseCard(cardId: number): Promise<number> {
+  const { data: card, error } = await supabase
+    .from('cards')
+    .select('topic_id, note_id, question_type, difficulty_tier, question_text, answer_text, explanation, tags')
+    .eq('id', cardId)
+    .single()
+
+  if (error || !card) throw new Error('Card not found')
+  if (card.note_id) throw new Error('This card already belongs to a note')
+  if (isChoiceType(card.question_type) || card.question_type === 'cloze') {
+    throw new Error('Only question-and-answer cards can be reversed')
+  }
+
+  const { data: note, error: noteErr } = await supabase
+    .from('notes')
+    .insert({
+      topic_id: card.topic_id,
+      note_type: 'reversible',
+      text: card.question_text,
+      back: card.answer_text,
+      explanation: card.explanation,
+    })
+    .select('id')
+    .single()
+
+  if (noteErr) throw new Error(noteErr.message)
+  await updateCard(cardId, { note_id: note.id, is_reverse: false })
+
+  const { data: reverse, error: insErr } = await supabase
+    .from('cards')
+    .insert({
+      topic_id: card.topic_id,
+      note_id: note.id,
+      is_reverse: true,
+      question_type: card.question_type,
+      difficulty_tier: card.difficulty_tier,
+      question_text: card.answer_text,
+      answer_text: card.question_text,
+      explanation: card.explanation,
+      tags: card.tags,
+    })
+    .select('id')
+    .single()
+
+  if (insErr) throw new Error(insErr.message)
+  return reverse.id
+}
+
+/**
+ * Save an edit to either card of a reversible note. `questionText` and
+ * `answerText` are as seen on the edited card; the note and its other card
+ * are rewritten to match, the other card with the two swapped.
+ */
+export async function saveReversibleCard(
+  cardId: number,
+  questionText: string,
+  answerText: string,
+  explanation: string | null,
+  questionType: string,
+  difficultyTier: string,
+) {
+  const { data: card, error } = await supabase
+    .from('cards')
+    .select('note_id, is_reverse')
+    .eq('id', cardId)
+    .single()
+
+  if (error || !card?.note_id) throw new Error('Card not found')
+
+  const [front, back] = card.is_reverse ? [answerText, questionText] : [questionText, answerText]
+  const { error: noteErr } = await supabase
+    .from('notes')
+    .update({ text: front, back, explanation, updated_at: new Date().toISOString() })
+    .eq('id', card.note_id)
+
+  if (noteErr) throw new Error(noteErr.message)
+
+  const { data: siblings, error: sibErr } = await supabase
+    .from('cards')
+    .select('id, is_reverse')
+    .eq('note_id', card.note_id)
+
+  if (sibErr) throw new Error(sibErr.message)
+
+  for (const sibling of siblings || []) {
+    await updateCard(sibling.id, {
+      question_type: questionType,
+      difficulty_tier: difficultyTier,
+      question_text: sibling.is_reverse ? back : front,
+      answer_text: sibling.is_reverse ? front : back,
+      explanation,
+    })
+  }
+}
+
+// ── Leeches ──
+
+/** Ask the AI for a replacement for a leech, grounded in its topic's content. */
+export async function suggestLeechFix(cardId: number, mode: 'rewrite' | 'regenerate'): Promise<GeneratedQuestion> {
+  const { rewriteQuestion } = await import('../lib/question-generator')
+
+  const { data: card, error } = await supabase
+    .from('cards')
+    .select('question_text, answer_text, explanation, topics(title, content_text)')
+    .eq('id', cardId)
+    .single()
+
+  if (error || !card) throw new Error('Card not found')
+
+  const topic = card.topics as any
+  if (!topic?.content_text) throw new Error('This card has no topic content to rewrite from')
+
+  return rewriteQuestion(mode, card, topic.title, topic.content_text)
+}
+
+/** Replace a leech's content, clear the leech tag and lapse count, and unsuspend it. */
+export async function applyLeechFix(cardId: number, question: GeneratedQuestion) {
+  const { data: card, error: cardErr } = await supabase
+    .from('cards')
+    .select('tags')
+    .eq('id', cardId)
+    .single()
+
+  if (cardErr || !card) throw new Error('Card not found')
+
+  await updateCard(cardId, {
+    question_type: question.question_type,
+    difficulty_tier: question.difficulty_tier,
+    question_text: question.question_text,
+    answer_text: question.answer_text,
+    options_json: question.options ? JSON.stringify(question.options) : null,
+    correct_options_json: question.correct_options ? JSON.stringify(question.correct_options) : null,
+    explanation: question.explanation || null,
+    tags: removeTag(card.tags, LEECH_TAG),
+    lapse_count: 0,
+    is_suspended: false,
+    // The replacement is a card of its own, no longer one of a cloze note's deletions
+    note_id: null,
+    cloze_index: null,
+  })
+}
+
+export async function checkAnswer(cardId: number, userAnswer: string): Promise<EvalResult | TypedEvalResult> {
   // Get the card
   const { data: card, error } = await supabase
     .from('cards')
-    .select('question_type, question_text, answer_text')
+    .select('question_type, question_text, answer_text, options_json, correct_options_json, cloze_index')
     .eq('id', cardId)
     .single()
 
   if (error || !card) throw new Error('Card not found')
 
+  // Cloze: ask about this card's blanks, not the note with every answer in it
+  const questionText = card.question_type === 'cloze' && card.cloze_index
+    ? clozePrompt(card.question_text, card.cloze_index)
+    : card.question_text
+
   if (!userAnswer.trim()) {
     return { correctness: 'incorrect' as const, feedback: 'No answer provided.', suggested_grade: 0 }
   }
 
-  // MCQ: evaluate client-side
-  if (card.question_type === 'mcq') {
-    return evaluateMcq(card.answer_text, userAnswer)
+  // Choice questions: evaluate client-side, by the text of the chosen options
+  const choice = choiceQuestion(card)
+  if (choice) {
+    return evaluateChoice(choice.correct, splitSelection(userAnswer), choice.multiple)
+  }
+
+  // Short recall and cloze answers: compare against the answer text locally
+  if ((card.question_type === 'recall' || card.question_type === 'cloze') && isShortAnswer(card.answer_text)) {
+    return evaluateTyped(card.answer_text, userAnswer)
   }
 
-  // Free-text: call Edge Function
-  const { data: result, error: fnErr } = await supabase.functions.invoke('claude-proxy', {
+  // Free-text: call Edge Function, falling back to the local comparison if it fails
+  try {
+    const { data: result, error: fnErr } = await supabase.functions.invoke('claude-proxy', {
+      body: {
+        action: 'evaluate-answer',
+        question_text: questionText,
+        correct_answer: card.answer_text,
+        user_answer: userAnswer,
+      },
+    })
+
+    if (fnErr) throw new Error(fnErr.message)
+    if (!result?.correctness) throw new Error('Malformed evaluation')
+    return result as EvalResult
+  } catch {
+    const local = evaluateTyped(card.answer_text, userAnswer)
+    return { ...local, feedback: `${local.feedback} (Checked offline by word matching — the AI evaluator is unavailable.)` }
+  }
+}
+
+// ── Hints ──
+
+/**
+ * The hint at `level` for a card, each stronger than the last: the answer's
+ * first letters, then a sentence from the topic's notes with the answer
+ * blanked, then a clue written by Claude. Level 2 moves on to the written
+ * clue when no sentence in the notes mentions the answer.
+ */
+export async function getHint(cardId: number, level: HintLevel): Promise<string> {
+  const { data: card, error } = await supabase
+    .from('cards')
+    .select('question_type, question_text, answer_text, cloze_index, topics(content_text)')
+    .eq('id', cardId)
+    .single()
+
+  if (error || !card) throw new Error('Card not found')
+
+  if (level === 1) return letterHint(card.answer_text)
+
+  const questionText = card.question_type === 'cloze' && card.cloze_index
+    ? clozePrompt(card.question_text, card.cloze_index)
+    : card.question_text
+  const contentText: string = (card.topics as any)?.content_text || ''
+
+  if (level === 2) {
+    const sentence = sourceSentenceHint(contentText, card.answer_text, questionText)
+    if (sentence) return sentence
+  }
+
+  const { data, error: fnErr } = await supabase.functions.invoke('claude-proxy', {
     body: {
-      action: 'evaluate-answer',
-      question_text: card.question_text,
+      action: 'give-hint',
+      question_text: questionText,
       correct_answer: card.answer_text,
-      user_answer: userAnswer,
+      content: contentText.slice(0, 6000),
     },
   })
 
   if (fnErr) throw new Error(fnErr.message)
-  return result
+  if (!data?.hint) throw new Error('No hint came back')
+  return data.hint
+}
+
+// ── Vacation & Backlog ──
+
+/** The planned or current vacation, or null once it is over. */
+export async function getVacation(): Promise<Vacation | null> {
+  const settings = await getSettings()
+  const vacation: Vacation | null = settings.vacation ?? null
+  if (!vacation) return null
+  const today = studyDayKey(new Date(), getDayConfig(settings))
+  return vacation.end >= today ? vacation : null
+}
+
+/**
+ * Pause reviews from `start` to `end` (study day keys, inclusive): every card
+ * due on or after `start` is pushed back by the length of the vacation, so
+ * nothing piles up while you're away. Returns how many cards moved.
+ */
+export async function startVacation(start: string, end: string): Promise<number> {
+  const length = studyDaysBetween(start, end) + 1
+  if (length < 1) throw new Error('A vacation must end on or after the day it starts.')
+  if (await getVacation()) throw new Error('A vacation is already planned. End it before planning another.')
+
+  const day = getDayConfig(await getSettings())
+  const { data, error } = await supabase.rpc('shift_due_dates', {
+    p_from: studyDayStartOf(start, day).toISOString(),
+    p_days: length,
+  })
+
+  if (error) throw new Error(error.message)
+  await updateSetting('vacation', { start, end, applied_at: new Date().toISOString() })
+  return data ?? 0
+}
+
+/** Come back early: days already spent away stay paused, the rest are handed back. */
+export async function endVacation(): Promise<number> {
+  const settings = await getSettings()
+  const vacation: Vacation | null = settings.vacation ?? null
+  if (!vacation) return 0
+
+  const day = getDayConfig(settings)
+  const length = studyDaysBetween(vacation.start, vacation.end) + 1
+  const unused = Math.min(Math.max(studyDaysBetween(studyDayKey(new Date(), day), vacation.end) + 1, 0), length)
+
+  let moved = 0
+  if (unused > 0) {
+    // Everything pushed back now sits on or after start + length; skip cards reviewed since
+    const { data, error } = await supabase.rpc('shift_due_dates', {
+      p_from: studyDayStartOf(addStudyDays(vacation.start, length), day).toISOString(),
+      p_days: -unused,
+      p_reviewed_before: vacation.applied_at,
+    })
+    if (error) throw new Error(error.message)
+    moved = data ?? 0
+  }
+
+  await updateSetting('vacation', null)
+  return moved
+}
+
+interface BacklogCard {
+  id: number
+  due_date: string
+  interval_days: number
+}
+
+/**
+ * Spread overdue reviews over the next `days` study days. Cards most overdue
+ * relative to their interval stay due today; the rest are dealt out so every
+ * day ends up with about the same number of reviews, counting what's already
+ * due then. Returns how many cards were moved.
+ */
+export async function spreadBacklog(days: number): Promise<number> {
+  const day = getDayConfig(await getSettings())
+  const now = new Date()
+  const endOfToday = nextStudyDayStart(now, day)
+
+  const pageSize = 1000
+  const backlog: BacklogCard[] = []
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('cards')
+      .select('id, due_date, interval_days')
+      .eq('card_state', 'review')
+      .eq('is_suspended', false)
+      .lt('due_date', endOfToday.toISOString())
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) throw new Error(error.message)
+    backlog.push(...((data || []) as BacklogCard[]))
+    if (!data || data.length < pageSize) break
+  }
+  if (days < 2 || backlog.length === 0) return 0
+
+  // Relative overdueness: days overdue as a fraction of the interval
+  const overdueness = (c: BacklogCard) =>
+    (now.getTime() - new Date(c.due_date).getTime()) / DAY_MS / Math.max(c.interval_days, 1)
+  backlog.sort((a, b) => overdueness(b) - overdueness(a))
+
+  const load = await getDueLoad(now, 1, days - 1)
+  let total = backlog.length
+  for (let d = 1; d < days; d++) total += load[d] ?? 0
+  const perDay = Math.ceil(total / days)
+
+  const today = studyDayKey(now, day)
+  const updates: { id: number; due_date: string }[] = []
+  let next = 0
+  for (let d = 0; d < days && next < backlog.length; d++) {
+    const room = d === days - 1 ? backlog.length - next : Math.max(perDay - (load[d] ?? 0), 0)
+    const dueDate = studyDayStartOf(addStudyDays(today, d), day).toISOString()
+    // Day 0 is today: those cards are already due
+    if (d > 0) {
+      for (const card of backlog.slice(next, next + room)) updates.push({ id: card.id, due_date: dueDate })
+    }
+    next += room
+  }
+
+  const batchSize = 500
+  for (let i = 0; i < updates.length; i += batchSize) {
+    const { error } = await supabase.rpc('set_due_dates', { p_updates: updates.slice(i, i + batchSize) })
+    if (error) throw new Error(error.message)
+  }
+  return updates.length
 }
 
 // ── Tutor ──
@@ -752,6 +1756,201 @@ export async function updateSetting(key: string, value: any) {
   if (error) throw new Error(error.message)
 }
 
+/** The user's timezone and day rollover hour, falling back to this device's timezone at midnight. */
+export function getDayConfig(settings: Record<string, any>): DayConfig {
+  const timeZone = settings.timezone && isValidTimeZone(settings.timezone) ? settings.timezone : deviceTimeZone()
+  const rolloverHour = Math.min(Math.max(Math.round(settings.day_rollover_hour ?? 0), 0), 23)
+  return { timeZone, rolloverHour }
+}
+
+export async function getSchedulerOptions(sourceId?: number): Promise<SchedulerOverrides> {
+  const settings = await getSettings()
+  const options: SchedulerOverrides = {
+    algorithm: settings.scheduler_algorithm,
+    desiredRetention: settings.desired_retention,
+    fsrsWeights: settings.fsrs_weights,
+    sm2Params: settings.sm2_params,
+  }
+
+  if (sourceId) {
+    const { data: source } = await supabase
+      .from('content_sources')
+      .select('desired_retention, deck_presets:preset_id(*)')
+      .eq('id', sourceId)
+      .maybeSingle()
+
+    const preset = source?.deck_presets as unknown as DeckPreset | null
+    if (preset) {
+      const presetOptions = presetToOptions(preset)
+      Object.assign(options, presetOptions, {
+        sm2Params: { ...options.sm2Params, ...presetOptions.sm2Params },
+      })
+    }
+
+    // FSRS aims for the source's target directly; the other schedulers stretch or shrink intervals toward it,
+    //   taking their unmodified intervals to give the default retention (the FSRS-only setting doesn't apply)
+    if (source?.desired_retention != null) {
+      if (options.algorithm === 'fsrs') {
+        options.desiredRetention = source.desired_retention
+      } else {
+        options.intervalModifier = intervalModifierForRetention(
+          source.desired_retention,
+          DEFAULT_SCHEDULER_OPTIONS.desiredRetention,
+        )
+      }
+    }
+  }
+
+  return options
+}
+
+function presetToOptions(preset: DeckPreset): SchedulerOverrides {
+  const parseSteps = (json: string) => {
+    try {
+      const steps = JSON.parse(json)
+      return Array.isArray(steps) ? steps.map(Number) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  return {
+    learningSteps: parseSteps(preset.learning_steps_json),
+    relearningSteps: parseSteps(preset.relearning_steps_json),
+    intervalLadder: parseSteps(preset.interval_ladder_json),
+    graduatingInterval: preset.graduating_interval,
+    maximumInterval: preset.max_interval,
+    sm2Params: preset.easy_bonus != null ? { easyBonus: preset.easy_bonus } : undefined,
+  }
+}
+
+/** Every review ever graded, for fitting scheduler parameters. */
+export async function getReviewLog(): Promise<ReviewLogEntry[]> {
+  const pageSize = 1000
+  const rows: ReviewLogEntry[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('review_history')
+      .select('card_id, grade, reviewed_at, previous_ease')
+      .eq('is_preview', false)
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) throw new Error(error.message)
+    rows.push(...(data || []))
+    if (!data || data.length < pageSize) break
+  }
+
+  return rows
+}
+
+// ── Deck Presets ──
+
+export async function getDeckPresets(): Promise<DeckPreset[]> {
+  const { data, error } = await supabase
+    .from('deck_presets')
+    .select('id, name, learning_steps_json, relearning_steps_json, interval_ladder_json, graduating_interval, easy_bonus, max_interval')
+    .order('name')
+
+  if (error) throw new Error(error.message)
+  return data || []
+}
+
+export async function createDeckPreset(name: string) {
+  const { data, error } = await supabase
+    .from('deck_presets')
+    .insert({ name })
+    .select('id')
+    .single()
+
+  if (error) throw new Error(error.message)
+  return data.id as number
+}
+
+export async function updateDeckPreset(presetId: number, updates: Partial<Omit<DeckPreset, 'id'>>) {
+  const { error } = await supabase
+    .from('deck_presets')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', presetId)
+
+  if (error) throw new Error(error.message)
+}
+
+export async function deleteDeckPreset(presetId: number) {
+  const { error } = await supabase
+    .from('deck_presets')
+    .delete()
+    .eq('id', presetId)
+
+  if (error) throw new Error(error.message)
+}
+
+export async function setSourcePreset(sourceId: number, presetId: number | null) {
+  const { error } = await supabase
+    .from('content_sources')
+    .update({ preset_id: presetId, updated_at: new Date().toISOString() })
+    .eq('id', sourceId)
+
+  if (error) throw new Error(error.message)
+}
+
+export async function setSourceRetention(sourceId: number, desiredRetention: number | null) {
+  const { error } = await supabase
+    .from('content_sources')
+    .update({ desired_retention: desiredRetention, updated_at: new Date().toISOString() })
+    .eq('id', sourceId)
+
+  if (error) throw new Error(error.message)
+}
+
+/** Actual pass rate of scheduled reviews per source over the last `days`, with each source's target. */
+export async function getSourceRetention(days: number = 90): Promise<SourceRetention[]> {
+  const { data, error } = await supabase.rpc('get_source_retention', { p_days: days })
+  if (error) throw new Error(error.message)
+  return data || []
+}
+
+// ── Session Presets ──
+
+export async function getSessionPresets(): Promise<SessionPreset[]> {
+  const { data, error } = await supabase
+    .from('session_presets')
+    .select('id, name, filter_json')
+    .order('name')
+
+  if (error) throw new Error(error.message)
+  return (data || []).map((row) => {
+    let filter: SessionFilter = {}
+    try {
+      filter = JSON.parse(row.filter_json)
+    } catch {
+      // Unreadable filter: keep the preset so it can be overwritten or deleted
+    }
+    return { id: row.id, name: row.name, filter }
+  })
+}
+
+export async function saveSessionPreset(name: string, filter: SessionFilter) {
+  const { data, error } = await supabase
+    .from('session_presets')
+    .upsert({ name, filter_json: JSON.stringify(filter), updated_at: new Date().toISOString() }, { onConflict: 'name' })
+    .select('id')
+    .single()
+
+  if (error) throw new Error(error.message)
+  return data.id as number
+}
+
+export async function deleteSessionPreset(presetId: number) {
+  const { error } = await supabase
+    .from('session_presets')
+    .delete()
+    .eq('id', presetId)
+
+  if (error) throw new Error(error.message)
+}
+
 // ── Images ──
 
 export function getImageUrl(sourceId: number, filename: string): string {
@@ -0,0 +1,22 @@
+import { parseCloze } from '../lib/cloze'
+
+interface Props {
+  text: string
+  index: number
+  revealed: boolean
+}
+
+// A cloze card's text: its own deletions blanked (with their hint) on the
+// front and highlighted on the back; every other deletion reads as plain text
+export default function ClozeText({ text, index, revealed }: Props) {
+  return (
+    <>
+      {parseCloze(text).map((segment, i) => {
+        if (segment.cloze !== index) return <span key={i}>{segment.text}</span>
+        return revealed
+          ? <mark key={i} className="cloze-fill">{segment.text}</mark>
+          : <span key={i} className="cloze-blank">[{segment.hint ?? '...'}]</span>
+      })}
+    </>
+  )
+}
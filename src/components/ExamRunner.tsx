@@ -0,0 +1,307 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { submitExam } from '../api/client'
+import type { ExamResult, ExamSession } from '../types'
+import type { ExamBreakdown } from '../lib/exam'
+import { choiceQuestion, isChoiceType, joinSelection, optionLetter, shuffleOptions, splitSelection } from '../lib/mcq'
+import ClozeText from './ClozeText'
+
+interface Props {
+  exam: ExamSession
+  onExit: () => void
+}
+
+const CORRECTNESS_LABELS = { correct: '✓ Correct', partial: '◐ Partially Correct', incorrect: '✗ Incorrect' }
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0)
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = String(seconds % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+function scoreColor(pct: number): string {
+  return pct >= 80 ? '#4ade80' : pct >= 50 ? '#facc15' : '#f87171'
+}
+
+function BreakdownTable({ title, rows }: { title: string; rows: ExamBreakdown[] }) {
+  return (
+    <div className="reports-section">
+      <h2>{title}</h2>
+      <table className="card-table reports-table">
+        <thead>
+          <tr>
+            <th>{title.replace('By ', '')}</th>
+            <th style={{ textAlign: 'right' }}>Questions</th>
+            <th style={{ textAlign: 'right' }}>Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td style={{ textTransform: 'capitalize' }}>{row.label}</td>
+              <td style={{ textAlign: 'right' }}>{row.questions}</td>
+              <td style={{ textAlign: 'right', color: scoreColor(row.score_pct), fontWeight: 600 }}>{row.score_pct}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// Runs an exam: questions under a countdown, nothing revealed until it is submitted
+export default function ExamRunner({ exam, onExit }: Props) {
+  const [index, setIndex] = useState(0)
+  const [answers, setAnswers] = useState<Record<number, string>>({})
+  const [now, setNow] = useState(Date.now())
+  const [submitting, setSubmitting] = useState(false)
+  const [result, setResult] = useState<ExamResult | null>(null)
+  const [error, setError] = useState('')
+  // Time spent on each card so far, and when the current one was shown
+  const timeSpent = useRef<Record<number, number>>({})
+  const shownAt = useRef(Date.now())
+  // The deadline submits once; after a failed submit, retrying is up to the user
+  const autoSubmitted = useRef(false)
+  // Choice questions' options, shuffled once for the whole exam
+  const optionOrders = useMemo(() => {
+    const orders = new Map<number, string[]>()
+    for (const c of exam.cards) {
+      const choice = choiceQuestion(c)
+      if (choice) orders.set(c.id, shuffleOptions(choice))
+    }
+    return orders
+  }, [exam])
+
+  const deadline = new Date(exam.deadline).getTime()
+  const card = exam.cards[index]
+
+  useEffect(() => {
+    if (result || submitting) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [result, submitting])
+
+  // Time's up: hand in whatever has been answered
+  useEffect(() => {
+    if (now >= deadline && !autoSubmitted.current && !result && !submitting) {
+      autoSubmitted.current = true
+      handleSubmit()
+    }
+  }, [now])
+
+  function recordTime() {
+    const t = Date.now()
+    timeSpent.current[card.id] = (timeSpent.current[card.id] || 0) + (t - shownAt.current)
+    shownAt.current = t
+  }
+
+  function setAnswer(cardId: number, answer: string) {
+    setAnswers((prev) => ({ ...prev, [cardId]: answer }))
+  }
+
+  function toggleOption(cardId: number, option: string) {
+    const selected = splitSelection(answers[cardId] || '')
+    setAnswer(cardId, joinSelection(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option]))
+  }
+
+  function goTo(next: number) {
+    recordTime()
+    setIndex(next)
+  }
+
+  async function handleSubmit() {
+    recordTime()
+    setSubmitting(true)
+    setError('')
+    try {
+      setResult(await submitExam(exam, exam.cards.map((c) => ({
+        card_id: c.id,
+        user_answer: answers[c.id] || '',
+        time_taken_ms: timeSpent.current[c.id] || 0,
+      }))))
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function confirmSubmit() {
+    const unanswered = exam.cards.filter((c) => !answers[c.id]?.trim()).length
+    if (unanswered > 0 && !confirm(`${unanswered} question${unanswered === 1 ? ' is' : 's are'} unanswered. Submit anyway?`)) return
+    handleSubmit()
+  }
+
+  // --- Scored report ---
+  if (result) {
+    const { report } = result
+    return (
+      <div className="study-view">
+        <div className="card session-complete">
+          <h2>Exam Results</h2>
+          <div className="session-stats">
+            <div className="stat-card">
+              <div className="stat-number" style={{ color: scoreColor(report.score_pct) }}>{report.score_pct}%</div>
+              <div className="stat-label">Score</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-number">{report.score} / {report.questions}</div>
+              <div className="stat-label">Marks</div>
+            </div>
+          </div>
+          <p style={{ color: '#7a7a92', fontSize: '13px' }}>
+            {exam.config.update_schedule
+              ? 'Answers were counted as reviews and the cards rescheduled.'
+              : 'Card schedules were not changed.'}
+          </p>
+        </div>
+
+        <BreakdownTable title="By Topic" rows={report.by_topic} />
+        <BreakdownTable title="By Difficulty" rows={report.by_tier} />
+
+        <div className="reports-section">
+          <h2>Answers</h2>
+          {result.items.map((item, i) => (
+            <div key={item.card.id} className="card exam-review-item">
+              <div className="question-meta">
+                <span className="badge badge-type">Q{i + 1}</span>
+                <span className={`badge badge-${item.card.difficulty_tier}`}>{item.card.difficulty_tier}</span>
+                <span style={{ fontSize: '12px', color: '#7a7a92' }}>{item.card.topic_title}</span>
+              </div>
+              <div className="question-text">
+                {item.card.cloze_index
+                  ? <ClozeText text={item.card.question_text} index={item.card.cloze_index} revealed />
+                  : item.card.question_text}
+              </div>
+              <div className={`check-result ${item.correctness}`}>
+                <strong>{CORRECTNESS_LABELS[item.correctness]}</strong>
+                {item.user_answer && (
+                  <div style={{ marginTop: '4px' }}>
+                    Your answer: {isChoiceType(item.card.question_type) ? splitSelection(item.user_answer).join('; ') : item.user_answer}
+                  </div>
+                )}
+                {item.feedback && <div style={{ marginTop: '4px' }}>{item.feedback}</div>}
+              </div>
+              <div className="answer-section" style={{ marginTop: '8px' }}>
+                <div className="answer-text">{item.card.answer_text}</div>
+                {item.card.explanation && <div className="explanation-text">{item.card.explanation}</div>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ textAlign: 'center', marginBottom: '24px' }}>
+          <button className="btn btn-primary" onClick={onExit}>Back to Study</button>
+        </div>
+      </div>
+    )
+  }
+
+  if (submitting) {
+    return (
+      <div className="study-view">
+        <div className="card session-complete">
+          <h2>Marking your answers…</h2>
+        </div>
+      </div>
+    )
+  }
+
+  const choice = choiceQuestion(card)
+  const selected = splitSelection(answers[card.id] || '')
+  const answered = exam.cards.filter((c) => answers[c.id]?.trim()).length
+  const remaining = deadline - now
+
+  return (
+    <div className="study-view">
+      <div className="study-header">
+        <span className="study-progress">
+          Question {index + 1} / {exam.cards.length} · {answered} answered
+          <span className="badge badge-mode">Exam</span>
+        </span>
+        <span className={`exam-timer${remaining < 5 * 60 * 1000 ? ' low' : ''}`}>{formatCountdown(remaining)}</span>
+      </div>
+
+      {error && (
+        <div className="error-msg">
+          Submitting failed: {error}
+          {' '}
+          <button className="btn btn-secondary" onClick={handleSubmit} style={{ fontSize: '13px' }}>
+            Retry Submit
+          </button>
+        </div>
+      )}
+
+      <div className="exam-nav">
+        {exam.cards.map((c, i) => (
+          <button
+            key={c.id}
+            className={`exam-nav-btn${i === index ? ' current' : ''}${answers[c.id]?.trim() ? ' answered' : ''}`}
+            onClick={() => goTo(i)}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </div>
+
+      <div className="card question-card">
+        <div className="question-meta">
+          <span className="badge badge-type">{card.question_type}</span>
+          <span className={`badge badge-${card.difficulty_tier}`}>{card.difficulty_tier}</span>
+        </div>
+        <div className="question-text">
+          {card.cloze_index
+            ? <ClozeText text={card.question_text} index={card.cloze_index} revealed={false} />
+            : card.question_text}
+        </div>
+
+        {choice ? (
+          <div style={{ marginTop: '12px' }}>
+            {choice.multiple && <div className="mcq-instruction">Choose all that apply</div>}
+            {(optionOrders.get(card.id) ?? []).map((opt, i) => (
+              <button
+                key={opt}
+                className={`mcq-option-btn${selected.includes(opt) ? ' selected' : ''}`}
+                onClick={() => choice.multiple ? toggleOption(card.id, opt) : setAnswer(card.id, opt)}
+              >
+                {optionLetter(i)}) {opt}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="answer-input-area">
+            <textarea
+              value={answers[card.id] || ''}
+              onChange={(e) => setAnswer(card.id, e.target.value)}
+              placeholder="Type your answer here..."
+              rows={4}
+            />
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between', marginTop: '12px' }}>
+        <button className="btn btn-secondary" onClick={() => goTo(index - 1)} disabled={index === 0}>
+          ← Previous
+        </button>
+        {index + 1 < exam.cards.length ? (
+          <button className="btn btn-primary" onClick={() => goTo(index + 1)}>
+            Next →
+          </button>
+        ) : (
+          <button className="btn btn-primary" onClick={confirmSubmit}>
+            Submit Exam
+          </button>
+        )}
+      </div>
+      {index + 1 < exam.cards.length && (
+        <div style={{ textAlign: 'center', marginTop: '12px' }}>
+          <button className="btn btn-secondary" onClick={confirmSubmit} style={{ fontSize: '13px' }}>
+            Submit Now
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react'
+import { getExamHistory } from '../api/client'
+import type { ExamConfig, ExamSummary } from '../types'
+
+interface Props {
+  sources: { source_id: number; filename: string }[]
+  onStart: (config: ExamConfig) => void
+}
+
+export default function ExamSetup({ sources, onStart }: Props) {
+  const [config, setConfig] = useState<ExamConfig>({
+    source_ids: [],
+    question_count: 40,
+    time_limit_minutes: 60,
+    mcq_share: 0.7,
+    update_schedule: false,
+  })
+  const [history, setHistory] = useState<ExamSummary[]>([])
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getExamHistory().then(setHistory).catch((e) => setError(e.message))
+  }, [])
+
+  function update(changes: Partial<ExamConfig>) {
+    setConfig((prev) => ({ ...prev, ...changes }))
+  }
+
+  function toggleSource(sourceId: number) {
+    const ids = config.source_ids.includes(sourceId)
+      ? config.source_ids.filter((id) => id !== sourceId)
+      : [...config.source_ids, sourceId]
+    update({ source_ids: ids })
+  }
+
+  const sourceName = (id: number) => sources.find((s) => s.source_id === id)?.filename ?? 'Deleted subject'
+
+  return (
+    <div className="card session-builder">
+      {error && <div className="error-msg">{error}</div>}
+
+      <div className="setting-row">
+        <label>Subjects:</label>
+        <div className="filter-chips">
+          {sources.map((s) => (
+            <button
+              key={s.source_id}
+              className={`filter-chip${config.source_ids.includes(s.source_id) ? ' active' : ''}`}
+              style={{ textTransform: 'none' }}
+              onClick={() => toggleSource(s.source_id)}
+            >
+              {s.filename}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="setting-row">
+        <label>Questions:</label>
+        <input
+          type="number"
+          value={config.question_count}
+          onChange={(e) => update({ question_count: Math.max(parseInt(e.target.value) || 1, 1) })}
+          min={1}
+          max={200}
+        />
+      </div>
+      <div className="setting-row">
+        <label>Time limit (minutes):</label>
+        <input
+          type="number"
+          value={config.time_limit_minutes}
+          onChange={(e) => update({ time_limit_minutes: Math.max(parseInt(e.target.value) || 1, 1) })}
+          min={1}
+          max={480}
+        />
+      </div>
+      <div className="setting-row">
+        <label>Multiple choice:</label>
+        <select
+          value={config.mcq_share ?? ''}
+          onChange={(e) => update({ mcq_share: e.target.value === '' ? null : Number(e.target.value) })}
+        >
+          <option value={1}>Only multiple choice</option>
+          <option value={0.9}>90% multiple choice</option>
+          <option value={0.7}>70% multiple choice</option>
+          <option value={0.5}>Half and half</option>
+          <option value={0}>Written answers first</option>
+          <option value="">No preference</option>
+        </select>
+      </div>
+      <div className="setting-row">
+        <label>
+          <input
+            type="checkbox"
+            checked={config.update_schedule}
+            onChange={(e) => update({ update_schedule: e.target.checked })}
+          />
+          {' '}Count answers as reviews (updates each card's schedule)
+        </label>
+      </div>
+
+      <div className="session-builder-actions">
+        <button
+          className="btn btn-primary"
+          onClick={() => onStart(config)}
+          disabled={config.source_ids.length === 0}
+        >
+          Start Exam
+        </button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="exam-history">
+          <h3>Past exams</h3>
+          {history.map((exam) => (
+            <div key={exam.session_id} className="exam-history-row">
+              <span>{new Date(exam.started_at).toLocaleDateString()}</span>
+              <span className="exam-history-sources">{exam.source_ids.map(sourceName).join(', ')}</span>
+              <span>{exam.questions} questions</span>
+              <strong>{exam.score_pct}%</strong>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
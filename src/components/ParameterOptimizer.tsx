@@ -0,0 +1,148 @@
+import { useState } from 'react'
+import { getReviewLog, updateSetting } from '../api/client'
+import { fitFsrs, fitSm2 } from '../lib/optimizer'
+import type { FitResult } from '../lib/optimizer'
+import { DEFAULT_SCHEDULER_OPTIONS } from '../lib/scheduler'
+import type { Sm2Params } from '../lib/scheduler'
+
+interface Props {
+  settings: Record<string, any>
+  onSaved: () => void
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+export default function ParameterOptimizer({ settings, onSaved }: Props) {
+  const algorithm = settings.scheduler_algorithm ?? 'fixed'
+  const [targetPct, setTargetPct] = useState(Math.round((settings.desired_retention ?? 0.9) * 100))
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<FitResult<number[] | Sm2Params> | null>(null)
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState(false)
+
+  if (algorithm === 'fixed') {
+    return (
+      <p className="setting-hint">
+        The fixed-step scheduler has nothing to fit. Switch to SM-2 or FSRS to tune it from your review history.
+      </p>
+    )
+  }
+
+  async function runFit() {
+    setError('')
+    setResult(null)
+    setSaved(false)
+    setRunning(true)
+    setProgress(0)
+    try {
+      const log = await getReviewLog()
+      const target = Math.min(Math.max(targetPct, 70), 99) / 100
+      if (algorithm === 'fsrs') {
+        const current = settings.fsrs_weights ?? DEFAULT_SCHEDULER_OPTIONS.fsrsWeights
+        setResult(await fitFsrs(log, target, current, setProgress))
+      } else {
+        const current = { ...DEFAULT_SCHEDULER_OPTIONS.sm2Params, ...settings.sm2_params }
+        setResult(fitSm2(log, target, current))
+      }
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  async function saveFit() {
+    if (!result) return
+    try {
+      if (algorithm === 'fsrs') {
+        await updateSetting('fsrs_weights', result.params)
+        await updateSetting('desired_retention', result.targetRetention)
+      } else {
+        await updateSetting('sm2_params', result.params)
+      }
+      setSaved(true)
+      onSaved()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function resetToDefaults() {
+    try {
+      await updateSetting(algorithm === 'fsrs' ? 'fsrs_weights' : 'sm2_params', null)
+      setResult(null)
+      onSaved()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  return (
+    <div>
+      <p className="setting-hint">
+        Replays your review history to fit the {algorithm === 'fsrs' ? 'FSRS weights' : 'SM-2 ease adjustments'} for
+        the retention you want. Nothing changes until you save.
+      </p>
+      {error && <div className="error-msg">{error}</div>}
+
+      <div className="setting-row">
+        <label>Target retention (%):</label>
+        <input
+          type="number"
+          value={targetPct}
+          onChange={(e) => setTargetPct(parseInt(e.target.value) || 0)}
+          min={70}
+          max={99}
+        />
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+        <button className="btn btn-primary" onClick={runFit} disabled={running}>
+          {running ? `Fitting... ${Math.round(progress * 100)}%` : 'Fit From Review History'}
+        </button>
+        <button className="btn btn-secondary" onClick={resetToDefaults} disabled={running}>
+          Reset to Defaults
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <p className="setting-hint">
+            Actual retention over {result.reviewCount} reviews: <strong>{pct(result.actualRetention)}</strong>
+          </p>
+          <table className="card-table">
+            <thead>
+              <tr>
+                <th></th>
+                <th style={{ textAlign: 'right' }}>Current</th>
+                <th style={{ textAlign: 'right' }}>Fitted</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Predicted retention</td>
+                <td style={{ textAlign: 'right' }}>{pct(result.before.predictedRetention)}</td>
+                <td style={{ textAlign: 'right' }}>{pct(result.after.predictedRetention)}</td>
+              </tr>
+              {result.before.logLoss !== undefined && result.after.logLoss !== undefined && (
+                <tr>
+                  <td>Log loss (lower is better)</td>
+                  <td style={{ textAlign: 'right' }}>{result.before.logLoss.toFixed(4)}</td>
+                  <td style={{ textAlign: 'right' }}>{result.after.logLoss.toFixed(4)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '12px' }}>
+            <button className="btn btn-primary" onClick={saveFit} disabled={saved}>
+              {saved ? 'Saved' : 'Save Fitted Parameters'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
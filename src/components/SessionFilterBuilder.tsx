@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react'
+import { getSessionPresets, saveSessionPreset, deleteSessionPreset } from '../api/client'
+import type { Card, SessionFilter, SessionPreset } from '../types'
+
+interface Props {
+  sources: { source_id: number; filename: string }[]
+  onStart: (filter: SessionFilter) => void
+}
+
+const TIERS: Card['difficulty_tier'][] = ['foundational', 'intermediate', 'advanced']
+const TYPES: Card['question_type'][] = ['recall', 'conceptual', 'application', 'mcq', 'multi_select', 'true_false', 'open_ended']
+const STATES: Card['card_state'][] = ['new', 'learning', 'review', 'relearning']
+
+// Add or remove a value; an empty list means "don't filter"
+function toggle<T>(list: T[] | undefined, value: T): T[] | undefined {
+  const current = list || []
+  const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value]
+  return next.length ? next : undefined
+}
+
+function optionalCount(text: string): number | undefined {
+  const n = parseInt(text)
+  return n > 0 ? n : undefined
+}
+
+export default function SessionFilterBuilder({ sources, onStart }: Props) {
+  const [filter, setFilter] = useState<SessionFilter>({})
+  const [tagsText, setTagsText] = useState('')
+  const [presets, setPresets] = useState<SessionPreset[]>([])
+  const [presetId, setPresetId] = useState<number | null>(null)
+  const [presetName, setPresetName] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadPresets()
+  }, [])
+
+  async function loadPresets() {
+    try {
+      setPresets(await getSessionPresets())
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  function update(changes: Partial<SessionFilter>) {
+    setFilter((prev) => ({ ...prev, ...changes }))
+  }
+
+  function currentFilter(): SessionFilter {
+    const tags = tagsText.split(',').map((t) => t.trim()).filter(Boolean)
+    return { ...filter, tags: tags.length ? tags : undefined }
+  }
+
+  function applyPreset(id: string) {
+    const preset = presets.find((p) => p.id === Number(id))
+    setPresetId(preset?.id ?? null)
+    setPresetName(preset?.name ?? '')
+    setFilter(preset?.filter ?? {})
+    setTagsText((preset?.filter.tags || []).join(', '))
+  }
+
+  async function handleSavePreset() {
+    const name = presetName.trim()
+    if (!name) {
+      setError('Give the preset a name first.')
+      return
+    }
+    setError('')
+    try {
+      setPresetId(await saveSessionPreset(name, currentFilter()))
+      await loadPresets()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function handleDeletePreset() {
+    if (!presetId) return
+    try {
+      await deleteSessionPreset(presetId)
+      setPresetId(null)
+      setPresetName('')
+      await loadPresets()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  function chips<T extends string>(values: T[], selected: T[] | undefined, onToggle: (value: T) => void) {
+    return (
+      <div className="filter-chips">
+        {values.map((value) => (
+          <button
+            key={value}
+            className={`filter-chip${selected?.includes(value) ? ' active' : ''}`}
+            onClick={() => onToggle(value)}
+          >
+            {value.replace('_', ' ')}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="card session-builder">
+      {error && <div className="error-msg">{error}</div>}
+
+      {presets.length > 0 && (
+        <div className="setting-row">
+          <label>Preset:</label>
+          <select value={presetId ?? ''} onChange={(e) => applyPreset(e.target.value)}>
+            <option value="">None</option>
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="setting-row">
+        <label>Subject:</label>
+        <select
+          value={filter.source_id ?? ''}
+          onChange={(e) => update({ source_id: e.target.value ? Number(e.target.value) : undefined, topic_id: undefined })}
+        >
+          <option value="">All subjects</option>
+          {sources.map((s) => (
+            <option key={s.source_id} value={s.source_id}>{s.filename}</option>
+          ))}
+        </select>
+      </div>
+      <div className="setting-row">
+        <label>Difficulty:</label>
+        {chips(TIERS, filter.difficulty_tiers, (v) => update({ difficulty_tiers: toggle(filter.difficulty_tiers, v) }))}
+      </div>
+      <div className="setting-row">
+        <label>Question type:</label>
+        {chips(TYPES, filter.question_types, (v) => update({ question_types: toggle(filter.question_types, v) }))}
+      </div>
+      <div className="setting-row">
+        <label>Card state:</label>
+        {chips(STATES, filter.card_states, (v) => update({ card_states: toggle(filter.card_states, v) }))}
+      </div>
+      <div className="setting-row">
+        <label>Tags (any of):</label>
+        <input
+          type="text"
+          value={tagsText}
+          placeholder="e.g. leech, exam"
+          onChange={(e) => setTagsText(e.target.value)}
+        />
+      </div>
+      <div className="setting-row">
+        <label>At least N lapses:</label>
+        <input
+          type="number"
+          value={filter.min_lapses ?? ''}
+          onChange={(e) => update({ min_lapses: optionalCount(e.target.value) })}
+          min={0}
+        />
+      </div>
+      <div className="setting-row">
+        <label>Failed in last N days:</label>
+        <input
+          type="number"
+          value={filter.failed_within_days ?? ''}
+          onChange={(e) => update({ failed_within_days: optionalCount(e.target.value) })}
+          min={0}
+        />
+      </div>
+      <div className="setting-row">
+        <label>Added in last N days:</label>
+        <input
+          type="number"
+          value={filter.added_within_days ?? ''}
+          onChange={(e) => update({ added_within_days: optionalCount(e.target.value) })}
+          min={0}
+        />
+      </div>
+      <div className="setting-row">
+        <label>Cards:</label>
+        <select
+          value={filter.due_only ? 'due' : 'all'}
+          onChange={(e) => update({ due_only: e.target.value === 'due' || undefined })}
+        >
+          <option value="all">Any, including ones not due yet</option>
+          <option value="due">Only new and due cards</option>
+        </select>
+      </div>
+      <div className="setting-row">
+        <label>Max cards:</label>
+        <input
+          type="number"
+          value={filter.limit ?? ''}
+          placeholder="50"
+          onChange={(e) => update({ limit: optionalCount(e.target.value) })}
+          min={1}
+          max={500}
+        />
+      </div>
+
+      <div className="session-builder-actions">
+        <button className="btn btn-primary" onClick={() => onStart(currentFilter())}>
+          Start Custom Session
+        </button>
+        <input
+          type="text"
+          value={presetName}
+          placeholder="Preset name"
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button className="btn btn-secondary" onClick={handleSavePreset}>
+          Save as Preset
+        </button>
+        {presetId && (
+          <button className="btn btn-danger" onClick={handleDeletePreset}>
+            Delete Preset
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
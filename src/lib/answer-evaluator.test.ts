@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { diffAnswer, evaluateTyped } from './answer-evaluator';
+
+// The diff's text, put back together: the typed answer (match + extra) and the expected one (match + missing)
+function sides(expected: string, typed: string) {
+  const diff = diffAnswer(expected, typed);
+  return {
+    diff,
+    typed: diff.filter((s) => s.kind !== 'missing').map((s) => s.text).join(''),
+    expected: diff.filter((s) => s.kind !== 'extra').map((s) => s.text).join(''),
+  };
+}
+
+describe('diffAnswer', () => {
+  it('diffs ignoring case and accents, keeping the original text', () => {
+    const { diff } = sides('Café au lait', 'cafe au lat');
+    expect(diff).toEqual([
+      { text: 'cafe au la', kind: 'match' },
+      { text: 'i', kind: 'missing' },
+      { text: 't', kind: 'match' },
+    ]);
+  });
+
+  it('keeps one segment character per original character for Hangul', () => {
+    const { diff, typed, expected } = sides('서울', '서을');
+    expect(diff).toEqual([
+      { text: '서', kind: 'match' },
+      { text: '을', kind: 'extra' },
+      { text: '울', kind: 'missing' },
+    ]);
+    expect(typed).toBe('서을');
+    expect(expected).toBe('서울');
+  });
+
+  it('treats decomposed (NFD) input like its composed form', () => {
+    const { diff, typed } = sides('résumé', 'résumé'.normalize('NFD'));
+    expect(diff).toEqual([{ text: 'résumé', kind: 'match' }]);
+    expect(typed).toBe('résumé');
+  });
+
+  it('never produces undefined text', () => {
+    const { diff } = sides('Ελλάδα 東京', 'ελλαδα 京都');
+    expect(diff.every((s) => typeof s.text === 'string' && s.text.length > 0)).toBe(true);
+  });
+});
+
+describe('evaluateTyped', () => {
+  it('ignores the source reference and punctuation', () => {
+    const result = evaluateTyped("Mitochondria. Source: 'the powerhouse of the cell'", 'mitochondria');
+    expect(result.correctness).toBe('correct');
+    expect(result.suggested_grade).toBe(2);
+  });
+
+  it('gives partial credit for some of the key words', () => {
+    expect(evaluateTyped('Adenosine triphosphate', 'adenosine').correctness).toBe('partial');
+  });
+});
@@ -1,5 +1,10 @@
 /**
- * MCQ answer evaluator — pure string matching, no API call needed.
+ * Choice answer evaluator — pure string matching, no API call needed.
+ *
+ * Chosen options are compared with the correct ones by their text, so the
+ * order they were shown in doesn't matter. "Choose all that apply" earns
+ * partial credit: each correct pick counts for, and each wrong pick against,
+ * the share of the correct options found.
  */
 
 export interface EvalResult {
@@ -8,41 +13,203 @@ export interface EvalResult {
   suggested_grade: number;
 }
 
-export function evaluateMcq(correctAnswer: string, userAnswer: string): EvalResult {
-  const userLetter = userAnswer.trim().toUpperCase()[0] || '';
-  const correctLower = correctAnswer.toLowerCase();
+export function evaluateChoice(correct: string[], selected: string[], multiple: boolean): EvalResult {
+  const isCorrect = (option: string) => correct.some((c) => normalizeAnswer(c) === normalizeAnswer(option));
 
-  // Extract the correct option letter from the answer text
-  let correctLetter = '';
-  for (const letter of ['A', 'B', 'C', 'D']) {
-    if (correctLower.startsWith(`${letter.toLowerCase()})`) || correctLower.startsWith(`${letter.toLowerCase()}.`)) {
-      correctLetter = letter;
-      break;
+  if (!multiple) {
+    if (selected.length === 1 && isCorrect(selected[0])) {
+      return { correctness: 'correct', feedback: 'Correct!', suggested_grade: 2 };
     }
+    return { correctness: 'incorrect', feedback: `The correct answer was: ${correct[0]}`, suggested_grade: 0 };
   }
 
-  // If we couldn't extract a letter, try matching content
-  if (!correctLetter) {
-    if (correctLower.includes(userAnswer.toLowerCase().trim())) {
-      return {
-        correctness: 'correct',
-        feedback: 'Correct!',
-        suggested_grade: 2,
-      };
+  const hits = selected.filter(isCorrect);
+  const wrong = selected.filter((option) => !isCorrect(option));
+  const missed = correct.filter((c) => !hits.some((h) => normalizeAnswer(h) === normalizeAnswer(c)));
+  const score = Math.max(hits.length - wrong.length, 0) / correct.length;
+
+  if (missed.length === 0 && wrong.length === 0) {
+    return { correctness: 'correct', feedback: 'Correct — all of them!', suggested_grade: 2 };
+  }
+
+  const details = [
+    missed.length ? `Missed: ${missed.join('; ')}.` : '',
+    wrong.length ? `Not correct: ${wrong.join('; ')}.` : '',
+  ].filter(Boolean).join(' ');
+
+  if (score >= 0.5) {
+    return { correctness: 'partial', feedback: `Partly right: found ${hits.length} of ${correct.length}. ${details}`, suggested_grade: 1 };
+  }
+  return { correctness: 'incorrect', feedback: details, suggested_grade: 0 };
+}
+
+/**
+ * Typed-answer evaluator for short recall answers — also offline, no API call.
+ *
+ * Answers are compared after normalising case, punctuation and accents.
+ * Each word of the expected answer is matched against the typed words,
+ * allowing a typo or two in longer words; how many match decides the grade.
+ */
+
+export interface DiffSegment {
+  text: string;
+  kind: 'match' | 'missing' | 'extra'; // missing: only in the expected answer; extra: only in the typed one
+}
+
+export interface TypedEvalResult extends EvalResult {
+  diff: DiffSegment[];
+}
+
+// Recall answers this many words or shorter are marked locally
+export const SHORT_ANSWER_MAX_WORDS = 8;
+
+// Longer answers than this aren't diffed character by character
+const MAX_DIFF_LENGTH = 300;
+
+const IGNORED_WORDS = new Set(['a', 'an', 'the']);
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Lowercase, strip accents and punctuation, collapse whitespace. */
+export function normalizeAnswer(text: string): string {
+  return fold(text).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/** The answer itself, without the "Source: '...'" reference generated answers end with. */
+export function answerCore(answerText: string): string {
+  return answerText.replace(/\s*Source:[\s\S]*$/i, '').trim();
+}
+
+export function isShortAnswer(answerText: string, maxWords: number = SHORT_ANSWER_MAX_WORDS): boolean {
+  const words = normalizeAnswer(answerCore(answerText)).split(' ').filter(Boolean);
+  return words.length > 0 && words.length <= maxWords;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Typos tolerated in a word: none in short words or numbers, one up to 7 letters, two beyond
+function allowedTypos(word: string): number {
+  if (/\d/.test(word) || word.length <= 3) return 0;
+  return word.length <= 7 ? 1 : 2;
+}
+
+/** Character-level diff of the typed answer against the expected one (case- and accent-insensitive). */
+export function diffAnswer(expected: string, typed: string): DiffSegment[] {
+  if (expected.length > MAX_DIFF_LENGTH || typed.length > MAX_DIFF_LENGTH) {
+    return [
+      ...(typed ? [{ text: typed, kind: 'extra' as const }] : []),
+      ...(expected ? [{ text: expected, kind: 'missing' as const }] : []),
+    ];
+  }
+
+  // One entry per original character (NFC, so decomposed input and Hangul
+  // don't split apart), compared by its folded form
+  const expectedChars = Array.from(expected.normalize('NFC'));
+  const typedChars = Array.from(typed.normalize('NFC'));
+  const a = expectedChars.map(fold);
+  const b = typedChars.map(fold);
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
     }
   }
 
-  if (userLetter === correctLetter) {
+  const segments: DiffSegment[] = [];
+  const push = (text: string, kind: DiffSegment['kind']) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else segments.push({ text, kind });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(typedChars[j], 'match');
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push(typedChars[j], 'extra');
+      j++;
+    } else {
+      push(expectedChars[i], 'missing');
+      i++;
+    }
+  }
+  return segments;
+}
+
+export function evaluateTyped(correctAnswer: string, userAnswer: string): TypedEvalResult {
+  const expectedText = answerCore(correctAnswer);
+  const diff = diffAnswer(expectedText, userAnswer.trim());
+  const expected = normalizeAnswer(expectedText).split(' ').filter((w) => w && !IGNORED_WORDS.has(w));
+  const typed = normalizeAnswer(userAnswer).split(' ').filter((w) => w && !IGNORED_WORDS.has(w));
+
+  if (expected.join(' ') === typed.join(' ')) {
+    return { correctness: 'correct', feedback: 'Exact match.', suggested_grade: 2, diff };
+  }
+
+  // Match each expected word to an unused typed word, exact matches first
+  const unused = [...typed];
+  let matched = 0;
+  let typos = 0;
+  const missed: string[] = [];
+  for (const word of expected) {
+    const exact = unused.indexOf(word);
+    if (exact >= 0) {
+      unused.splice(exact, 1);
+      matched++;
+      continue;
+    }
+    const close = unused.findIndex((t) => editDistance(word, t) <= allowedTypos(word));
+    if (close >= 0) {
+      unused.splice(close, 1);
+      matched++;
+      typos++;
+    } else {
+      missed.push(word);
+    }
+  }
+
+  const recall = expected.length ? matched / expected.length : 0;
+  const precision = typed.length ? matched / typed.length : 0;
+
+  if (recall === 1 && precision >= 0.5) {
     return {
       correctness: 'correct',
-      feedback: 'Correct!',
+      feedback: typos ? 'Correct, apart from spelling.' : 'Correct.',
       suggested_grade: 2,
+      diff,
     };
-  } else {
+  }
+  if (recall >= 0.5) {
     return {
-      correctness: 'incorrect',
-      feedback: correctLetter ? `The correct answer was ${correctLetter}.` : 'Incorrect.',
-      suggested_grade: 0,
+      correctness: 'partial',
+      feedback: missed.length
+        ? `Partly right: ${matched} of ${expected.length} key words. Missing: ${missed.join(', ')}.`
+        : 'Has the right words, but a lot more besides.',
+      suggested_grade: 1,
+      diff,
     };
   }
+  return {
+    correctness: 'incorrect',
+    feedback: 'Doesn\'t match the expected answer.',
+    suggested_grade: 0,
+    diff,
+  };
 }
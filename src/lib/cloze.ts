@@ -0,0 +1,61 @@
+/**
+ * Cloze deletions.
+ *
+ * A cloze note marks the parts to recall as {{c1::answer}}, optionally with a
+ * hint: {{c1::answer::hint}}. Every deletion number becomes one card; the
+ * card for c2 blanks out all the c2 deletions and shows the rest filled in,
+ * as Anki does. Several deletions may share a number.
+ */
+
+const CLOZE_RE = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export interface ClozeSegment {
+  text: string;
+  cloze?: number; // set on deletions: their number
+  hint?: string;
+}
+
+/** Split a note into plain text and deletions, in order. */
+export function parseCloze(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CLOZE_RE)) {
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    const hint = match[3]?.trim();
+    segments.push({ text: match[2], cloze: Number(match[1]), ...(hint ? { hint } : {}) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+export function hasCloze(text: string): boolean {
+  return parseCloze(text).some((s) => s.cloze !== undefined);
+}
+
+/** The deletion numbers in a note, ascending — one card each. */
+export function clozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const s of parseCloze(text)) if (s.cloze !== undefined && s.cloze > 0) indices.add(s.cloze);
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+/** What the card for `index` should be answered with: its deletions, in order. */
+export function clozeAnswer(text: string, index: number): string {
+  return parseCloze(text)
+    .filter((s) => s.cloze === index)
+    .map((s) => s.text.trim())
+    .join(', ');
+}
+
+/** The front of the card for `index` as plain text: its deletions as [...] or [hint], the rest filled in. */
+export function clozePrompt(text: string, index: number): string {
+  return parseCloze(text)
+    .map((s) => (s.cloze === index ? `[${s.hint ?? '...'}]` : s.text))
+    .join('');
+}
+
+/** The note with every deletion filled in. */
+export function clozeFilled(text: string): string {
+  return parseCloze(text).map((s) => s.text).join('');
+}
@@ -0,0 +1,135 @@
+/**
+ * Exam mode.
+ *
+ * An exam samples a fixed number of cards across the topics of the chosen
+ * sources, multiple choice first, and is marked only once it is submitted.
+ * Sampling and scoring are pure so the view and the API layer share them.
+ */
+
+import { isChoiceType } from './mcq';
+
+export type ExamCorrectness = 'correct' | 'partial' | 'incorrect';
+
+// Partial answers earn half a mark
+export const CORRECTNESS_SCORE: Record<ExamCorrectness, number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+};
+
+// The review grade an exam answer feeds the scheduler (Good / Hard / Again)
+export const CORRECTNESS_GRADE: Record<ExamCorrectness, number> = {
+  correct: 2,
+  partial: 1,
+  incorrect: 0,
+};
+
+export interface ExamCandidate {
+  id: number;
+  topic_id: number;
+  question_type: string;
+}
+
+export interface MarkedAnswer {
+  topic_title: string;
+  difficulty_tier: string;
+  correctness: ExamCorrectness;
+}
+
+export interface ExamBreakdown {
+  label: string;
+  questions: number;
+  score: number; // marks earned, partial answers counting half
+  score_pct: number;
+}
+
+export interface ExamReport {
+  questions: number;
+  score: number;
+  score_pct: number;
+  by_topic: ExamBreakdown[];
+  by_tier: ExamBreakdown[];
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Take up to `count` cards, one topic at a time in turn, so every topic is covered before any repeats
+function roundRobin<T extends ExamCandidate>(cards: T[], count: number, random: () => number): T[] {
+  const byTopic = new Map<number, T[]>();
+  for (const card of shuffle(cards, random)) {
+    const list = byTopic.get(card.topic_id) ?? [];
+    list.push(card);
+    byTopic.set(card.topic_id, list);
+  }
+
+  const topics = shuffle(Array.from(byTopic.values()), random);
+  const picked: T[] = [];
+  for (let round = 0; picked.length < count; round++) {
+    const before = picked.length;
+    for (const list of topics) {
+      if (picked.length >= count) break;
+      if (round < list.length) picked.push(list[round]);
+    }
+    if (picked.length === before) break;
+  }
+  return picked;
+}
+
+/**
+ * Pick `count` exam questions from `cards`: a `mcqShare` fraction choice
+ * questions — MCQ, multi-select or true/false — (made up from other types
+ * when there aren't enough, and the other way round), each group spread
+ * evenly across topics. A null `mcqShare` ignores question type and spreads
+ * all of them across topics. The result is shuffled.
+ */
+export function sampleExamCards<T extends ExamCandidate>(
+  cards: T[],
+  count: number,
+  mcqShare: number | null,
+  random: () => number = Math.random,
+): T[] {
+  if (mcqShare === null) return shuffle(roundRobin(cards, count, random), random);
+
+  const mcqs = cards.filter((c) => isChoiceType(c.question_type));
+  const others = cards.filter((c) => !isChoiceType(c.question_type));
+  const total = Math.min(count, cards.length);
+
+  const mcqTarget = Math.min(Math.round(total * Math.min(Math.max(mcqShare, 0), 1)), mcqs.length);
+  const otherCount = Math.min(total - mcqTarget, others.length);
+  const mcqCount = Math.min(total - otherCount, mcqs.length);
+
+  return shuffle([...roundRobin(mcqs, mcqCount, random), ...roundRobin(others, otherCount, random)], random);
+}
+
+function breakdown(answers: MarkedAnswer[], key: (a: MarkedAnswer) => string): ExamBreakdown[] {
+  const groups = new Map<string, ExamBreakdown>();
+  for (const answer of answers) {
+    const label = key(answer);
+    const group = groups.get(label) ?? { label, questions: 0, score: 0, score_pct: 0 };
+    group.questions += 1;
+    group.score += CORRECTNESS_SCORE[answer.correctness];
+    groups.set(label, group);
+  }
+  return Array.from(groups.values())
+    .map((g) => ({ ...g, score_pct: Math.round((g.score / g.questions) * 100) }))
+    .sort((a, b) => a.score_pct - b.score_pct || a.label.localeCompare(b.label));
+}
+
+/** Overall score plus per-topic and per-difficulty-tier breakdowns, weakest first. */
+export function scoreExam(answers: MarkedAnswer[]): ExamReport {
+  const score = answers.reduce((sum, a) => sum + CORRECTNESS_SCORE[a.correctness], 0);
+  return {
+    questions: answers.length,
+    score,
+    score_pct: answers.length ? Math.round((score / answers.length) * 100) : 0,
+    by_topic: breakdown(answers, (a) => a.topic_title),
+    by_tier: breakdown(answers, (a) => a.difficulty_tier),
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GRADE_DISTRIBUTIONS, simulateWorkload } from './forecast';
+import type { ForecastCard, ForecastInput } from './forecast';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function newCards(count: number): ForecastCard[] {
+  return Array.from({ length: count }, () => ({ card_state: 'new', ease_factor: 2.5, step_index: 0, due_date: null }));
+}
+
+function dueReviews(count: number): ForecastCard[] {
+  return Array.from({ length: count }, () => ({
+    card_state: 'review',
+    ease_factor: 2.5,
+    step_index: 3,
+    interval_days: 10,
+    due_date: new Date(NOW.getTime() - DAY_MS).toISOString(),
+  }));
+}
+
+function input(cards: ForecastCard[], fields: Partial<ForecastInput> = {}): ForecastInput {
+  return {
+    cards,
+    grades: DEFAULT_GRADE_DISTRIBUTIONS,
+    newPerDay: 20,
+    reviewsPerDay: 10,
+    options: {},
+    day: { timeZone: 'UTC', rolloverHour: 0 },
+    ...fields,
+  };
+}
+
+describe('simulateWorkload', () => {
+  it('charts the same inputs the same way', () => {
+    const cards = [...newCards(30), ...dueReviews(15)];
+    expect(simulateWorkload(input(cards), 14, NOW)).toEqual(simulateWorkload(input(cards), 14, NOW));
+  });
+
+  it('introduces new cards up to the daily limit', () => {
+    const days = simulateWorkload(input(newCards(50)), 4, NOW);
+    expect(days.map((d) => d.newCards)).toEqual([20, 20, 10, 0]);
+    expect(days.map((d) => d.date)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05']);
+  });
+
+  it('rolls reviews over the daily limit to the next day', () => {
+    const [today, tomorrow] = simulateWorkload(input(dueReviews(25)), 2, NOW);
+    expect(today).toMatchObject({ reviews: 10, backlog: 15 });
+    expect(tomorrow.reviews).toBe(10);
+    expect(tomorrow.backlog).toBeGreaterThanOrEqual(5);
+  });
+
+  it('takes what was already studied today off the first day only', () => {
+    const cards = [...newCards(50), ...dueReviews(25)];
+    const [today, tomorrow] = simulateWorkload(input(cards, { doneToday: { newCards: 15, reviews: 4 } }), 2, NOW);
+    expect(today).toMatchObject({ newCards: 5, reviews: 6, backlog: 19 });
+    expect(tomorrow).toMatchObject({ newCards: 20, reviews: 10 });
+  });
+
+  it('adds hypothetical new cards after the real ones', () => {
+    const days = simulateWorkload(input(newCards(10), { extraNewCards: 25 }), 3, NOW);
+    expect(days.map((d) => d.newCards)).toEqual([20, 15, 0]);
+  });
+});
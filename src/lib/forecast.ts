@@ -0,0 +1,156 @@
+/**
+ * Workload forecast.
+ *
+ * Runs the real scheduler forward day by day: each due card is graded at
+ * random from the user's own grade distribution for its state, new cards are
+ * introduced up to the daily limit, and learning steps are replayed within
+ * the day. Reviews over the daily review limit roll over to the next day.
+ * Today only gets what's left of its limits after the cards already studied.
+ *
+ * The random source is seeded, so the same inputs always chart the same way.
+ */
+
+import { processGrade } from './scheduler';
+import type { CardForScheduling, SchedulerOverrides } from './scheduler';
+import { studyDayStart, studyDayKey } from './study-day';
+import type { DayConfig } from './study-day';
+
+export type GradeDistribution = [number, number, number, number]; // P(Again), P(Hard), P(Good), P(Easy)
+
+export interface ForecastCard extends CardForScheduling {
+  due_date: string | null;
+  source_id?: number;
+}
+
+export interface ForecastInput {
+  cards: ForecastCard[];
+  /** Grade probabilities by the card state being graded */
+  grades: Record<'new' | 'learning' | 'review' | 'relearning', GradeDistribution>;
+  newPerDay: number;
+  reviewsPerDay: number;
+  /** New cards and reviews already done today, which count against today's limits */
+  doneToday?: { newCards: number; reviews: number };
+  /** Scheduler options by source_id (0 = no source) */
+  options: Record<number, SchedulerOverrides>;
+  /** Hypothetical extra new cards, e.g. a source you are thinking of importing */
+  extraNewCards?: number;
+  /** Where one study day ends and the next begins */
+  day: DayConfig;
+}
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD
+  reviews: number;
+  learning: number;
+  newCards: number;
+  backlog: number; // due reviews left over for the next day
+}
+
+export const DEFAULT_GRADE_DISTRIBUTIONS: ForecastInput['grades'] = {
+  new: [0.25, 0.15, 0.5, 0.1],
+  learning: [0.15, 0.15, 0.6, 0.1],
+  review: [0.1, 0.15, 0.65, 0.1],
+  relearning: [0.2, 0.2, 0.55, 0.05],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Learning steps replayed per card per day before giving up until tomorrow
+const MAX_STEPS_PER_DAY = 8;
+
+// mulberry32: small, fast, seedable
+function seededRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleGrade(dist: GradeDistribution, random: () => number): number {
+  let r = random();
+  for (let grade = 0; grade < 3; grade++) {
+    if (r < dist[grade]) return grade;
+    r -= dist[grade];
+  }
+  return 3;
+}
+
+export function simulateWorkload(input: ForecastInput, days: number, now: Date = new Date()): ForecastDay[] {
+  const random = seededRandom(1);
+  const today = studyDayStart(now, input.day);
+
+  const dayIndex = (iso: string | null) =>
+    iso ? Math.max(Math.floor((new Date(iso).getTime() - today.getTime()) / DAY_MS), 0) : 0;
+
+  const dueByDay: ForecastCard[][] = Array.from({ length: days }, () => []);
+  const newCards: ForecastCard[] = [];
+  const schedule = (card: ForecastCard) => {
+    const index = dayIndex(card.due_date);
+    if (index < days) dueByDay[index].push(card);
+  };
+
+  for (const card of input.cards) {
+    if (card.card_state === 'new') newCards.push({ ...card });
+    else schedule({ ...card });
+  }
+  for (let i = 0; i < (input.extraNewCards ?? 0); i++) {
+    newCards.push({ card_state: 'new', ease_factor: 2.5, step_index: 0, interval_days: 0, due_date: null });
+  }
+
+  const forecast: ForecastDay[] = [];
+  let carried: ForecastCard[] = [];
+
+  for (let d = 0; d < days; d++) {
+    const start = d === 0 ? now : new Date(today.getTime() + d * DAY_MS + (now.getTime() - today.getTime()));
+    const date = studyDayKey(new Date(today.getTime() + d * DAY_MS + DAY_MS / 2), input.day);
+    const day: ForecastDay = { date, reviews: 0, learning: 0, newCards: 0, backlog: 0 };
+
+    // Cards in a learning step are always shown; reviews are held to the limit
+    const due = [...carried, ...dueByDay[d]];
+    const inLearning = due.filter((c) => c.card_state === 'learning' || c.card_state === 'relearning');
+    const reviews = due.filter((c) => c.card_state === 'review');
+    const reviewLimit = Math.max(input.reviewsPerDay - (d === 0 ? input.doneToday?.reviews ?? 0 : 0), 0);
+    const shown = [...inLearning, ...reviews.slice(0, reviewLimit)];
+    carried = reviews.slice(reviewLimit);
+    day.backlog = carried.length;
+
+    const newLimit = Math.max(input.newPerDay - (d === 0 ? input.doneToday?.newCards ?? 0 : 0), 0);
+    const introduced = newCards.splice(0, newLimit);
+    day.newCards = introduced.length;
+
+    for (const card of [...shown, ...introduced]) {
+      if (card.card_state === 'review') day.reviews++;
+      const opts = input.options[card.source_id ?? 0];
+      let time = start;
+      let current: ForecastCard = card;
+
+      for (let step = 0; step < MAX_STEPS_PER_DAY; step++) {
+        const state = current.card_state as keyof ForecastInput['grades'];
+        const grade = sampleGrade(input.grades[state] ?? DEFAULT_GRADE_DISTRIBUTIONS.review, random);
+        const result = processGrade(current, grade, time, opts);
+        current = {
+          ...current,
+          ...result,
+          stability: result.stability ?? current.stability,
+          difficulty: result.difficulty ?? current.difficulty,
+          last_reviewed_at: time.toISOString(),
+        };
+        time = new Date(result.due_date);
+        if (result.card_state === 'review' || dayIndex(result.due_date) > d) break;
+        day.learning++;
+      }
+
+      if (dayIndex(current.due_date) <= d) {
+        // Still mid-step at the end of the day: pick it up tomorrow
+        current.due_date = new Date(today.getTime() + (d + 1) * DAY_MS).toISOString();
+      }
+      schedule(current);
+    }
+
+    forecast.push(day);
+  }
+
+  return forecast;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  initDifficulty,
+  initStability,
+  intervalForRetention,
+  nextDifficulty,
+  nextForgetStability,
+  nextRecallStability,
+  retrievability,
+} from './fsrs';
+import { processGrade } from './scheduler';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+
+describe('memory model', () => {
+  it('recalls at 90% after exactly the stability', () => {
+    expect(retrievability(0, 5)).toBe(1);
+    expect(retrievability(5, 5)).toBeCloseTo(0.9, 10);
+    expect(intervalForRetention(5, 0.9)).toBeCloseTo(5, 10);
+    expect(intervalForRetention(5, 0.8)).toBeGreaterThan(5);
+    expect(intervalForRetention(5, 0.95)).toBeLessThan(5);
+  });
+
+  it('starts from the FSRS-4.5 default weights', () => {
+    expect([0, 1, 2, 3].map((grade) => initStability(grade))).toEqual([0.4872, 1.4003, 3.7145, 13.8206]);
+    expect(initDifficulty(2)).toBeCloseTo(5.1618, 4);
+    expect(initDifficulty(0)).toBeCloseTo(7.6214, 4);
+    expect(initDifficulty(3)).toBeCloseTo(3.932, 4);
+  });
+
+  it('moves difficulty with the grade, reverting toward a first Good', () => {
+    expect(nextDifficulty(5.1618, 0)).toBeCloseTo(6.9012, 4);
+    expect(nextDifficulty(5.1618, 2)).toBeCloseTo(5.1618, 4);
+    expect(nextDifficulty(5.1618, 3)).toBeLessThan(5.1618);
+    expect(nextDifficulty(10, 0)).toBe(10);
+    expect(nextDifficulty(1, 3)).toBe(1);
+  });
+
+  it('grows stability on a pass, least for Hard and most for Easy', () => {
+    expect(nextRecallStability(5.1618, 3.7145, 0.9, 2)).toBeCloseTo(14.095, 3);
+    expect(nextRecallStability(5.1618, 3.7145, 0.9, 1)).toBeCloseTo(6.0729, 3);
+    expect(nextRecallStability(5.1618, 3.7145, 0.9, 3)).toBeCloseTo(33.5636, 3);
+  });
+
+  it('never raises stability on a lapse', () => {
+    expect(nextForgetStability(5.1618, 3.7145, 0.9)).toBeCloseTo(1.4185, 3);
+    expect(nextForgetStability(1, 0.5, 0.1)).toBeLessThanOrEqual(0.5);
+  });
+});
+
+describe('processGrade with FSRS', () => {
+  const options = { algorithm: 'fsrs' as const, learningSteps: [10] };
+  const newCard = { card_state: 'new', ease_factor: 2.5, step_index: 0 };
+
+  it('schedules the reference first intervals at 90% retention', () => {
+    expect(processGrade(newCard, 2, NOW, options)).toMatchObject({
+      card_state: 'review',
+      interval_days: 4,
+      stability: DEFAULT_FSRS_WEIGHTS[2],
+    });
+    expect(processGrade(newCard, 3, NOW, options)).toMatchObject({ card_state: 'review', interval_days: 14 });
+  });
+
+  it('works from the real time since the last review', () => {
+    const card = {
+      card_state: 'review',
+      ease_factor: 2.5,
+      step_index: 2,
+      interval_days: 4,
+      stability: 3.7145,
+      difficulty: 5.1618,
+      last_reviewed_at: new Date(NOW.getTime() - 3.7145 * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    const result = processGrade(card, 2, NOW, options);
+    expect(result.stability).toBeCloseTo(14.095, 2);
+    expect(result.interval_days).toBe(14);
+  });
+
+  it('aims for a higher target retention with shorter intervals', () => {
+    const result = processGrade(newCard, 3, NOW, { ...options, desiredRetention: 0.95 });
+    expect(result.interval_days).toBe(Math.round(intervalForRetention(13.8206, 0.95)));
+    expect(result.interval_days).toBeLessThan(14);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) memory model.
+ *
+ * Each card carries two memory values:
+ *   stability  — days until the probability of recall drops to 90%
+ *   difficulty — 1 (easy) to 10 (hard), controls how fast stability grows
+ *
+ * Implements the FSRS-4.5 formulas with the published default weights.
+ * Grades use the app's 0–3 scale (Again/Hard/Good/Easy), so the FSRS
+ * rating is always grade + 1.
+ */
+
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // chosen so that retrievability(S, S) === 0.9
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/** Probability of recall after `elapsedDays` for a card with the given stability. */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * Math.max(elapsedDays, 0) / stability, DECAY);
+}
+
+/** Days until retrievability falls to `desiredRetention` (unrounded). */
+export function intervalForRetention(stability: number, desiredRetention: number): number {
+  return (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+}
+
+export function initStability(grade: number, w: number[] = DEFAULT_FSRS_WEIGHTS): number {
+  return Math.max(w[grade], MIN_STABILITY);
+}
+
+export function initDifficulty(grade: number, w: number[] = DEFAULT_FSRS_WEIGHTS): number {
+  const rating = grade + 1;
+  return clamp(w[4] - (rating - 3) * w[5], MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+export function nextDifficulty(difficulty: number, grade: number, w: number[] = DEFAULT_FSRS_WEIGHTS): number {
+  const rating = grade + 1;
+  const next = difficulty - w[6] * (rating - 3);
+  // Mean reversion towards the initial difficulty of a "Good" first answer
+  const reverted = w[7] * w[4] + (1 - w[7]) * next;
+  return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/** Stability after a successful review (Hard/Good/Easy). */
+export function nextRecallStability(
+  difficulty: number,
+  stability: number,
+  recall: number,
+  grade: number,
+  w: number[] = DEFAULT_FSRS_WEIGHTS,
+): number {
+  const hardPenalty = grade === 1 ? w[15] : 1;
+  const easyBonus = grade === 3 ? w[16] : 1;
+  const growth = Math.exp(w[8])
+    * (11 - difficulty)
+    * Math.pow(stability, -w[9])
+    * (Math.exp(w[10] * (1 - recall)) - 1)
+    * hardPenalty
+    * easyBonus;
+  return Math.max(stability * (growth + 1), MIN_STABILITY);
+}
+
+/** Stability after a lapse (Again). Never exceeds the previous stability. */
+export function nextForgetStability(
+  difficulty: number,
+  stability: number,
+  recall: number,
+  w: number[] = DEFAULT_FSRS_WEIGHTS,
+): number {
+  const next = w[11]
+    * Math.pow(difficulty, -w[12])
+    * (Math.pow(stability + 1, w[13]) - 1)
+    * Math.exp(w[14] * (1 - recall));
+  return clamp(next, MIN_STABILITY, stability);
+}
@@ -0,0 +1,89 @@
+/**
+ * Progressive hints for a card the student is stuck on.
+ *
+ * Level 1 shows the shape of the answer (first letters and length); level 2 a
+ * sentence from the topic's notes that mentions the answer, with the answer's
+ * words blanked; level 3 a clue written by Claude, fetched by the API layer.
+ * Hints used are logged with the review and cap the grade the check suggests.
+ */
+
+import { answerCore, normalizeAnswer } from './answer-evaluator';
+
+export type HintLevel = 1 | 2 | 3;
+
+export const MAX_HINT_LEVEL = 3;
+
+// Highest suggested grade after 0, 1, 2, 3 hints: one rules out Easy, more cap at Hard
+const HINT_GRADE_CAP = [3, 2, 1, 1];
+
+// Longer answers only show the shape of their first few words
+const LETTER_HINT_MAX_WORDS = 8;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'with', 'that', 'this', 'from', 'into', 'its', 'was', 'were',
+  'has', 'have', 'had', 'which', 'what', 'when', 'where', 'who', 'why', 'how', 'their', 'they', 'them',
+  'than', 'then', 'there', 'these', 'those', 'been', 'being', 'can', 'may', 'will', 'would', 'should',
+  'also', 'such', 'each', 'other', 'more', 'most', 'some', 'any', 'all', 'does', 'did', 'about',
+]);
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+export function capSuggestedGrade<T extends { suggested_grade: number; feedback: string }>(result: T, hintsUsed: number): T {
+  const cap = HINT_GRADE_CAP[Math.min(hintsUsed, HINT_GRADE_CAP.length - 1)];
+  if (result.suggested_grade <= cap) return result;
+  return {
+    ...result,
+    suggested_grade: cap,
+    feedback: `${result.feedback} (Suggested grade lowered: ${hintsUsed} hint${hintsUsed === 1 ? '' : 's'} used.)`,
+  };
+}
+
+/** "Treaty of Versailles" → "T_____ o_ V_________ (3 words, 18 letters)" */
+export function letterHint(answerText: string): string {
+  const words = answerCore(answerText).match(WORD_RE) || [];
+  if (words.length === 0) return 'No letters to show.';
+
+  const shown = words.slice(0, LETTER_HINT_MAX_WORDS).map((word) => word[0] + '_'.repeat(word.length - 1));
+  const letters = words.reduce((sum, word) => sum + word.length, 0);
+  const more = words.length > LETTER_HINT_MAX_WORDS ? ' …' : '';
+  const size = words.length > 1 ? `${words.length} words, ${letters} letters` : `${letters} letters`;
+  return `${shown.join(' ')}${more} (${size})`;
+}
+
+function keywords(text: string): Set<string> {
+  return new Set(normalizeAnswer(text).split(' ').filter((w) => w.length > 2 && !STOPWORDS.has(w)));
+}
+
+/**
+ * The sentence of `contentText` sharing the most words with the answer (the
+ * question's words break ties), with the answer's words blanked out. Null
+ * when no sentence mentions the answer.
+ */
+export function sourceSentenceHint(contentText: string, answerText: string, questionText: string): string | null {
+  const answerWords = keywords(answerCore(answerText));
+  if (answerWords.size === 0) return null;
+  const questionWords = keywords(questionText);
+
+  const sentences = (contentText.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*/g) || [])
+    .map((s) => s.trim())
+    .filter((s) => s.length >= 20 && s.length <= 400);
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const sentence of sentences) {
+    const words = keywords(sentence);
+    let answerHits = 0;
+    let questionHits = 0;
+    for (const w of words) {
+      if (answerWords.has(w)) answerHits++;
+      else if (questionWords.has(w)) questionHits++;
+    }
+    const score = answerHits + questionHits * 0.25;
+    if (answerHits > 0 && score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+
+  return best && best.replace(WORD_RE, (word) => answerWords.has(normalizeAnswer(word)) ? '_'.repeat(word.length) : word);
+}
@@ -0,0 +1,41 @@
+/**
+ * Leech detection.
+ *
+ * A card that keeps lapsing is a "leech": drilling it again rarely helps,
+ * rewriting it usually does. Leeches are flagged with a tag (and optionally
+ * suspended) when their lapse count reaches the threshold, then again every
+ * half-threshold lapses after that, matching Anki's behaviour.
+ *
+ * cards.tags is a comma-separated list.
+ */
+
+export const LEECH_TAG = 'leech';
+export const DEFAULT_LEECH_THRESHOLD = 8;
+
+export type LeechAction = 'tag' | 'suspend';
+
+export function parseTags(tags: string | null): string[] {
+  if (!tags) return [];
+  return tags.split(',').map((t) => t.trim()).filter(Boolean);
+}
+
+export function hasTag(tags: string | null, tag: string): boolean {
+  return parseTags(tags).includes(tag);
+}
+
+export function addTag(tags: string | null, tag: string): string {
+  const list = parseTags(tags);
+  if (!list.includes(tag)) list.push(tag);
+  return list.join(',');
+}
+
+export function removeTag(tags: string | null, tag: string): string | null {
+  const list = parseTags(tags).filter((t) => t !== tag);
+  return list.length ? list.join(',') : null;
+}
+
+export function isLeechLapse(lapseCount: number, threshold: number = DEFAULT_LEECH_THRESHOLD): boolean {
+  if (threshold < 1 || lapseCount < threshold) return false;
+  const repeat = Math.max(Math.ceil(threshold / 2), 1);
+  return (lapseCount - threshold) % repeat === 0;
+}
@@ -0,0 +1,101 @@
+/**
+ * Choice questions: single-answer MCQ, "choose all that apply" (multi_select)
+ * and true/false.
+ *
+ * Options are stored without letters and the correct ones by their text
+ * (correct_options_json), so the options can be shuffled for every review and
+ * lettered only for display. Older MCQs store "A) ..." options and name the
+ * correct letter at the start of answer_text; they are read the same way.
+ */
+
+export type ChoiceType = 'mcq' | 'multi_select' | 'true_false';
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export interface ChoiceCard {
+  question_type: string;
+  options_json: string | null;
+  correct_options_json?: string | null;
+  answer_text: string;
+}
+
+export interface ChoiceQuestion {
+  options: string[];
+  correct: string[];
+  multiple: boolean; // choose all that apply
+}
+
+const LABEL_RE = /^\s*\(?([A-Ha-h])[).:]\s+/;
+
+export function isChoiceType(type: string): type is ChoiceType {
+  return type === 'mcq' || type === 'multi_select' || type === 'true_false';
+}
+
+/** "B) Mitochondria" → "Mitochondria" */
+export function stripOptionLabel(option: string): string {
+  return option.replace(LABEL_RE, '').trim();
+}
+
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function parseList(json: string | null | undefined): string[] {
+  if (!json) return [];
+  try {
+    const list = JSON.parse(json);
+    return Array.isArray(list) ? list.map((item) => stripOptionLabel(String(item))).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Older cards: "B) ..." at the start of the answer names the correct option
+function legacyCorrect(options: string[], answerText: string): string[] {
+  const letter = answerText.match(LABEL_RE)?.[1];
+  if (letter) {
+    const option = options[letter.toUpperCase().charCodeAt(0) - 65];
+    if (option) return [option];
+  }
+  const answer = answerText.toLowerCase();
+  return options.filter((option) => answer.includes(option.toLowerCase()));
+}
+
+/**
+ * A card's options and correct answers, or null when it can't be asked as a
+ * choice question (not a choice type, no options, or no known correct option).
+ */
+export function choiceQuestion(card: ChoiceCard): ChoiceQuestion | null {
+  if (!isChoiceType(card.question_type)) return null;
+
+  const options = card.question_type === 'true_false' ? TRUE_FALSE_OPTIONS : parseList(card.options_json);
+  if (options.length < 2) return null;
+
+  const stored = parseList(card.correct_options_json);
+  const correct = (stored.length ? stored : legacyCorrect(options, card.answer_text))
+    .map((answer) => options.find((option) => option.toLowerCase() === answer.toLowerCase()))
+    .filter((option): option is string => !!option);
+  if (correct.length === 0) return null;
+
+  return { options, correct, multiple: card.question_type === 'multi_select' };
+}
+
+/** A new random order for the options; true/false always reads True, False. */
+export function shuffleOptions(question: ChoiceQuestion, random: () => number = Math.random): string[] {
+  const out = [...question.options];
+  if (out.length === 2 && out.every((option, i) => option === TRUE_FALSE_OPTIONS[i])) return out;
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Selections are passed and stored as text (exam answers, checkAnswer): one option per line
+export function joinSelection(selected: string[]): string {
+  return selected.join('\n');
+}
+
+export function splitSelection(answer: string): string[] {
+  return answer.split('\n').map((option) => option.trim()).filter(Boolean);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FSRS_WEIGHTS } from './fsrs';
+import { fitFsrs, fitSm2 } from './optimizer';
+import type { ReviewLogEntry } from './optimizer';
+import { DEFAULT_SM2_PARAMS } from './scheduler';
+
+const START = Date.parse('2026-01-05T09:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * `cards` cards, each reviewed on the given days with the given grades; the
+ * last grade comes from `lastGrade`, so the final reviews' pass rate is set
+ * by the caller.
+ */
+function history(cards: number, days: number[], grades: number[], lastGrade: (card: number) => number): ReviewLogEntry[] {
+  const log: ReviewLogEntry[] = [];
+  for (let card = 1; card <= cards; card++) {
+    days.forEach((day, i) => {
+      log.push({
+        card_id: card,
+        grade: i === days.length - 1 ? lastGrade(card) : grades[i],
+        reviewed_at: new Date(START + day * DAY_MS).toISOString(),
+        previous_ease: 2.5,
+      });
+    });
+  }
+  return log;
+}
+
+describe('fitSm2', () => {
+  it('shrinks intervals after Good when too many following reviews fail', () => {
+    const log = history(60, [0, 2, 8], [2, 2], (card) => (card % 4 === 0 ? 0 : 2));
+    const fit = fitSm2(log, 0.9, DEFAULT_SM2_PARAMS);
+    expect(fit.reviewCount).toBe(60);
+    expect(fit.actualRetention).toBeCloseTo(0.75, 5);
+    expect(fit.params.goodEaseDelta).toBeLessThan(DEFAULT_SM2_PARAMS.goodEaseDelta);
+    expect(fit.after.predictedRetention).toBeGreaterThan(fit.before.predictedRetention);
+  });
+
+  it('stretches them when nearly every review passes', () => {
+    const log = history(60, [0, 2, 8], [2, 2], () => 2);
+    const fit = fitSm2(log, 0.85, DEFAULT_SM2_PARAMS);
+    expect(fit.params.goodEaseDelta).toBeGreaterThan(DEFAULT_SM2_PARAMS.goodEaseDelta);
+    expect(fit.params.goodEaseDelta).toBeLessThanOrEqual(0.1);
+  });
+
+  it('keeps the parameters it has no evidence for', () => {
+    const log = history(60, [0, 2, 8], [2, 2], (card) => (card % 4 === 0 ? 0 : 2));
+    const fit = fitSm2(log, 0.9, DEFAULT_SM2_PARAMS);
+    expect(fit.params.againEaseDelta).toBe(DEFAULT_SM2_PARAMS.againEaseDelta);
+    expect(fit.params.hardIntervalFactor).toBe(DEFAULT_SM2_PARAMS.hardIntervalFactor);
+    expect(fit.params.easyBonus).toBe(DEFAULT_SM2_PARAMS.easyBonus);
+  });
+
+  it('refuses to fit too little history', () => {
+    const log = history(10, [0, 2, 8], [2, 2], () => 2);
+    expect(() => fitSm2(log, 0.9, DEFAULT_SM2_PARAMS)).toThrow(/Not enough review history/);
+  });
+});
+
+describe('fitFsrs', () => {
+  it('never fits worse than the weights it started from', async () => {
+    const log = history(40, [0, 3, 12, 40], [2, 2, 2], (card) => (card % 3 === 0 ? 0 : 2));
+    const fit = await fitFsrs(log, 0.9, DEFAULT_FSRS_WEIGHTS, undefined, 5);
+    expect(fit.reviewCount).toBe(120);
+    expect(fit.params).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+    expect(fit.after.logLoss).toBeLessThanOrEqual(fit.before.logLoss!);
+  });
+
+  it('lowers the log loss on history the defaults fit badly', async () => {
+    // Everything is forgotten after a long gap: the default weights predict recall
+    const log = history(40, [0, 3, 40], [2, 2], () => 0);
+    const fit = await fitFsrs(log, 0.9, DEFAULT_FSRS_WEIGHTS, undefined, 10);
+    expect(fit.after.logLoss).toBeLessThan(fit.before.logLoss!);
+    expect(fit.after.predictedRetention).toBeLessThan(fit.before.predictedRetention);
+  });
+
+  it('refuses to fit too little history', async () => {
+    const log = history(10, [0, 3, 12], [2, 2], () => 2);
+    await expect(fitFsrs(log, 0.9)).rejects.toThrow(/Not enough review history/);
+  });
+});
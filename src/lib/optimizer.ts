@@ -0,0 +1,284 @@
+/**
+ * Fits scheduler parameters to a user's review history.
+ *
+ * FSRS: replays each card's reviews through the memory model and minimises
+ * the log loss between predicted and actual recall, using Adam on
+ * finite-difference gradients of the 17 weights.
+ *
+ * SM-2: for each grade, compares the pass rate of the card's *next* review
+ * with the target retention. Under exponential forgetting, stretching an
+ * interval by m turns a pass rate r into r^m, so m = ln(target) / ln(r).
+ * Good/Easy apply m through their ease deltas, Hard through
+ * hardIntervalFactor, and Again through the ease delta that shapes the
+ * intervals after a lapse.
+ *
+ * Reviews less than a day after the previous one are learning steps: they
+ * update difficulty but are not scored.
+ */
+
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  retrievability,
+  initStability,
+  initDifficulty,
+  nextDifficulty,
+  nextRecallStability,
+  nextForgetStability,
+} from './fsrs';
+import type { Sm2Params } from './scheduler';
+
+export interface ReviewLogEntry {
+  card_id: number;
+  grade: number;
+  reviewed_at: string;
+  previous_ease: number | null;
+}
+
+export interface RetentionEstimate {
+  predictedRetention: number;
+  logLoss?: number;
+}
+
+export interface FitResult<T> {
+  params: T;
+  targetRetention: number;
+  reviewCount: number; // scored (day-or-longer) reviews
+  actualRetention: number;
+  before: RetentionEstimate;
+  after: RetentionEstimate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_REVIEWS = 50;
+const MIN_GROUP_REVIEWS = 10;
+
+// Allowed range for each FSRS weight while optimising
+const FSRS_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.75],
+  [0, 4], [0, 0.8], [0.01, 3],
+  [0.5, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 3],
+  [0, 1], [1, 6],
+];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/** Reviews grouped per card, oldest first. */
+function groupByCard(log: ReviewLogEntry[]): ReviewLogEntry[][] {
+  const byCard = new Map<number, ReviewLogEntry[]>();
+  for (const entry of log) {
+    const list = byCard.get(entry.card_id);
+    if (list) list.push(entry);
+    else byCard.set(entry.card_id, [entry]);
+  }
+  const histories = Array.from(byCard.values());
+  for (const h of histories) {
+    h.sort((a, b) => new Date(a.reviewed_at).getTime() - new Date(b.reviewed_at).getTime());
+  }
+  return histories;
+}
+
+function notEnoughHistory(count: number): Error {
+  return new Error(`Not enough review history to optimise (${count} reviews, need at least ${MIN_REVIEWS}).`);
+}
+
+// ── FSRS ──
+
+interface FsrsEvaluation {
+  logLoss: number;
+  predicted: number;
+  actual: number;
+  count: number;
+}
+
+function evaluateFsrs(histories: ReviewLogEntry[][], w: number[]): FsrsEvaluation {
+  let loss = 0;
+  let predicted = 0;
+  let actual = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let stability = initStability(history[0].grade, w);
+    let difficulty = initDifficulty(history[0].grade, w);
+    let last = new Date(history[0].reviewed_at).getTime();
+
+    for (let i = 1; i < history.length; i++) {
+      const { grade } = history[i];
+      const time = new Date(history[i].reviewed_at).getTime();
+      const elapsed = (time - last) / DAY_MS;
+      last = time;
+
+      if (elapsed < 1) {
+        difficulty = nextDifficulty(difficulty, grade, w);
+        continue;
+      }
+
+      const r = clamp(retrievability(elapsed, stability), 1e-4, 1 - 1e-4);
+      const recalled = grade > 0 ? 1 : 0;
+      loss -= recalled * Math.log(r) + (1 - recalled) * Math.log(1 - r);
+      predicted += r;
+      actual += recalled;
+      count++;
+
+      stability = grade === 0
+        ? nextForgetStability(difficulty, stability, r, w)
+        : nextRecallStability(difficulty, stability, r, grade, w);
+      difficulty = nextDifficulty(difficulty, grade, w);
+    }
+  }
+
+  return {
+    logLoss: count ? loss / count : 0,
+    predicted: count ? predicted / count : 0,
+    actual: count ? actual / count : 0,
+    count,
+  };
+}
+
+export async function fitFsrs(
+  log: ReviewLogEntry[],
+  targetRetention: number,
+  currentWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+  onProgress?: (fraction: number) => void,
+  iterations: number = 80,
+): Promise<FitResult<number[]>> {
+  const histories = groupByCard(log);
+  const before = evaluateFsrs(histories, currentWeights);
+  if (before.count < MIN_REVIEWS) throw notEnoughHistory(before.count);
+
+  // Adam on central-difference gradients
+  const w = currentWeights.map((v, i) => clamp(v, FSRS_BOUNDS[i][0], FSRS_BOUNDS[i][1]));
+  const m = w.map(() => 0);
+  const v = w.map(() => 0);
+  const lr = 0.04;
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+
+  for (let t = 1; t <= iterations; t++) {
+    // Yield between iterations so the page stays responsive
+    onProgress?.((t - 1) / iterations);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const grad = w.map((value, i) => {
+      const h = 1e-4 * Math.max(1, Math.abs(value));
+      const up = [...w];
+      const down = [...w];
+      up[i] = value + h;
+      down[i] = value - h;
+      return (evaluateFsrs(histories, up).logLoss - evaluateFsrs(histories, down).logLoss) / (2 * h);
+    });
+
+    for (let i = 0; i < w.length; i++) {
+      m[i] = beta1 * m[i] + (1 - beta1) * grad[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * grad[i] * grad[i];
+      const mHat = m[i] / (1 - Math.pow(beta1, t));
+      const vHat = v[i] / (1 - Math.pow(beta2, t));
+      // Scale the step by the weight's magnitude so large and small weights move alike
+      const step = lr * Math.max(1, Math.abs(w[i]) / 10) * mHat / (Math.sqrt(vHat) + 1e-8);
+      w[i] = clamp(w[i] - step, FSRS_BOUNDS[i][0], FSRS_BOUNDS[i][1]);
+    }
+  }
+
+  const after = evaluateFsrs(histories, w);
+  // Never hand back weights that fit worse than the ones we started from
+  const improved = after.logLoss < before.logLoss;
+  const fitted = improved ? w.map((x) => Math.round(x * 10000) / 10000) : currentWeights;
+  const final = improved ? after : before;
+
+  return {
+    params: fitted,
+    targetRetention,
+    reviewCount: before.count,
+    actualRetention: before.actual,
+    before: { predictedRetention: before.predicted, logLoss: before.logLoss },
+    after: { predictedRetention: final.predicted, logLoss: final.logLoss },
+  };
+}
+
+// ── SM-2 ──
+
+interface GradeOutcome {
+  reviews: number;
+  passed: number;
+  easeSum: number;
+}
+
+export function fitSm2(log: ReviewLogEntry[], targetRetention: number, current: Sm2Params): FitResult<Sm2Params> {
+  const outcomes: GradeOutcome[] = [0, 1, 2, 3].map(() => ({ reviews: 0, passed: 0, easeSum: 0 }));
+
+  // Attribute each scored review to the grade of the previous scored review
+  for (const history of groupByCard(log)) {
+    let previous: ReviewLogEntry | null = null;
+    let last = new Date(history[0].reviewed_at).getTime();
+    for (let i = 1; i < history.length; i++) {
+      const time = new Date(history[i].reviewed_at).getTime();
+      const elapsed = (time - last) / DAY_MS;
+      last = time;
+      if (elapsed < 1) continue;
+
+      if (previous) {
+        const o = outcomes[previous.grade];
+        o.reviews++;
+        if (history[i].grade > 0) o.passed++;
+        o.easeSum += previous.previous_ease ?? 2.5;
+      }
+      previous = history[i];
+    }
+  }
+
+  const total = outcomes.reduce((sum, o) => sum + o.reviews, 0);
+  if (total < MIN_REVIEWS) throw notEnoughHistory(total);
+
+  const target = clamp(targetRetention, 0.7, 0.99);
+  const multiplier = (o: GradeOutcome) => {
+    if (o.reviews < MIN_GROUP_REVIEWS) return 1;
+    const rate = clamp(o.passed / o.reviews, 0.01, 0.99);
+    return clamp(Math.log(target) / Math.log(rate), 0.5, 2);
+  };
+  const meanEase = (o: GradeOutcome) => (o.reviews ? o.easeSum / o.reviews : 2.5);
+
+  // Shift an ease delta so the resulting ease scales by m
+  const fitDelta = (o: GradeOutcome, delta: number, min: number, max: number) => {
+    const ease = meanEase(o);
+    return clamp(multiplier(o) * (ease + delta) - ease, min, max);
+  };
+
+  const [again, hard, good, easy] = outcomes;
+  const round = (x: number) => Math.round(x * 100) / 100;
+  const params: Sm2Params = {
+    againEaseDelta: round(fitDelta(again, current.againEaseDelta, -0.5, 0)),
+    hardEaseDelta: current.hardEaseDelta,
+    goodEaseDelta: round(fitDelta(good, current.goodEaseDelta, -0.1, 0.1)),
+    easyEaseDelta: round(fitDelta(easy, current.easyEaseDelta, 0, 0.5)),
+    hardIntervalFactor: round(clamp(current.hardIntervalFactor * multiplier(hard), 1, 2)),
+    easyBonus: current.easyBonus,
+  };
+
+  // Interval stretch each grade actually got after clamping/rounding
+  const applied = [
+    (meanEase(again) + params.againEaseDelta) / (meanEase(again) + current.againEaseDelta),
+    params.hardIntervalFactor / current.hardIntervalFactor,
+    (meanEase(good) + params.goodEaseDelta) / (meanEase(good) + current.goodEaseDelta),
+    (meanEase(easy) + params.easyEaseDelta) / (meanEase(easy) + current.easyEaseDelta),
+  ];
+
+  let passed = 0;
+  let predictedAfter = 0;
+  outcomes.forEach((o, grade) => {
+    if (!o.reviews) return;
+    const rate = o.passed / o.reviews;
+    passed += o.passed;
+    predictedAfter += o.reviews * Math.pow(rate, applied[grade]);
+  });
+
+  return {
+    params,
+    targetRetention: target,
+    reviewCount: total,
+    actualRetention: passed / total,
+    before: { predictedRetention: passed / total },
+    after: { predictedRetention: predictedAfter / total },
+  };
+}
@@ -4,13 +4,16 @@
  */
 
 import { supabase } from '../api/supabase'
+import { hasCloze } from './cloze'
+import { choiceQuestion, isChoiceType } from './mcq'
 
-interface GeneratedQuestion {
+export interface GeneratedQuestion {
   question_type: string;
   difficulty_tier: string;
   question_text: string;
   answer_text: string;
   options: string[] | null;
+  correct_options: string[] | null; // for choice questions, the correct options' text
   explanation: string;
 }
 
@@ -30,7 +33,49 @@ export async function generateQuestionsForTopic(
 
   if (error) throw new Error(`Question generation failed: ${error.message}`)
 
-  // Parse the response
+  const parsed = parseResponse(data)
+  const questions = parsed.questions || []
+
+  const validQuestions: GeneratedQuestion[] = []
+  for (const q of questions) {
+    const normalized = normalizeQuestion(q)
+    if (normalized) validQuestions.push(normalized)
+  }
+
+  return validQuestions
+}
+
+/**
+ * Ask for a replacement for a card the student keeps failing.
+ * 'rewrite' keeps what the card tests and fixes how it asks; 'regenerate'
+ * writes a fresh card on the same idea from the topic content.
+ */
+export async function rewriteQuestion(
+  mode: 'rewrite' | 'regenerate',
+  card: { question_text: string; answer_text: string; explanation: string | null },
+  topicTitle: string,
+  contentText: string,
+): Promise<GeneratedQuestion> {
+  const { data, error } = await supabase.functions.invoke('claude-proxy', {
+    body: {
+      action: 'rewrite-card',
+      mode,
+      topic_title: topicTitle,
+      content: contentText.slice(0, 6000),
+      question_text: card.question_text,
+      answer_text: card.answer_text,
+      explanation: card.explanation,
+    },
+  })
+
+  if (error) throw new Error(`Card rewrite failed: ${error.message}`)
+
+  const question = normalizeQuestion(parseResponse(data))
+  if (!question) throw new Error('Card rewrite returned an empty question or answer')
+  return question
+}
+
+function parseResponse(data: any): any {
   let responseText = typeof data === 'string' ? data : data.response || JSON.stringify(data)
 
   let jsonText = responseText.trim()
@@ -39,42 +84,57 @@ export async function generateQuestionsForTopic(
     jsonText = lines.slice(1, lines[lines.length - 1].trim() === '```' ? -1 : undefined).join('\n')
   }
 
-  const parsed = JSON.parse(jsonText)
-  const questions = parsed.questions || []
-
-  // Validate and normalize
-  const validTypes = new Set(['recall', 'conceptual', 'application', 'mcq', 'open_ended'])
-  const validTiers = new Set(['foundational', 'intermediate', 'advanced'])
-
-  const validQuestions: GeneratedQuestion[] = []
+  return JSON.parse(jsonText)
+}
 
-  for (const q of questions) {
-    let qType = (q.question_type || '').toLowerCase()
-    if (!validTypes.has(qType)) qType = 'conceptual'
+// Validate and normalize
+const validTypes = new Set(['recall', 'conceptual', 'application', 'mcq', 'multi_select', 'true_false', 'open_ended', 'cloze'])
+const validTiers = new Set(['foundational', 'intermediate', 'advanced'])
 
-    let tier = (q.difficulty_tier || '').toLowerCase()
-    if (!validTiers.has(tier)) tier = 'intermediate'
+function normalizeQuestion(q: any): GeneratedQuestion | null {
+  let qType = (q.question_type || '').toLowerCase()
+  if (!validTypes.has(qType)) qType = 'conceptual'
 
-    const questionText = (q.question || '').trim()
-    const answerText = (q.answer || '').trim()
+  let tier = (q.difficulty_tier || '').toLowerCase()
+  if (!validTiers.has(tier)) tier = 'intermediate'
 
-    if (!questionText || !answerText) continue
+  const questionText = (q.question || '').trim()
+  const answerText = (q.answer || '').trim()
 
-    let options = q.options
-    if (qType === 'mcq' && (!options || options.length !== 4)) {
-      qType = 'open_ended'
-      options = null
-    }
+  if (!questionText || !answerText) return null
 
-    validQuestions.push({
+  // Choice questions need their correct option(s) among the options, stored
+  // unlettered; one that doesn't check out is asked as an open question instead
+  let options: string[] | null = null
+  let correctOptions: string[] | null = null
+  if (isChoiceType(qType)) {
+    const choice = choiceQuestion({
       question_type: qType,
-      difficulty_tier: tier,
-      question_text: questionText,
+      options_json: Array.isArray(q.options) ? JSON.stringify(q.options) : null,
+      correct_options_json: q.correct ? JSON.stringify([].concat(q.correct)) : null,
       answer_text: answerText,
-      options: options || null,
-      explanation: q.explanation || '',
     })
+    const valid = choice
+      && (qType !== 'mcq' || choice.correct.length === 1)
+      && (qType !== 'multi_select' || choice.options.length >= 3)
+    if (valid) {
+      options = qType === 'true_false' ? null : choice.options
+      correctOptions = choice.correct
+    } else {
+      qType = 'open_ended'
+    }
   }
 
-  return validQuestions
+  // A cloze question without any {{c1::...}} deletions is just a recall question
+  if (qType === 'cloze' && !hasCloze(questionText)) qType = 'recall'
+
+  return {
+    question_type: qType,
+    difficulty_tier: tier,
+    question_text: questionText,
+    answer_text: answerText,
+    options,
+    correct_options: correctOptions,
+    explanation: q.explanation || '',
+  }
 }
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { balanceInterval, fuzzRange, processEarlyReview, processGrade } from './scheduler';
+import type { CardForScheduling, SchedulerOverrides } from './scheduler';
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const minutesUntil = (iso: string) => Math.round((new Date(iso).getTime() - NOW.getTime()) / 60000);
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS).toISOString();
+
+function reviewCard(fields: Partial<CardForScheduling> = {}): CardForScheduling {
+  return {
+    card_state: 'review',
+    ease_factor: 2.5,
+    step_index: 3,
+    interval_days: 10,
+    last_reviewed_at: daysAgo(10),
+    ...fields,
+  };
+}
+
+describe('SM-2', () => {
+  const sm2: SchedulerOverrides = { algorithm: 'sm2' };
+
+  it('multiplies the interval by the ease', () => {
+    expect(processGrade(reviewCard(), 2, NOW, sm2)).toMatchObject({ interval_days: 25, ease_factor: 2.5 });
+    expect(processGrade(reviewCard(), 1, NOW, sm2)).toMatchObject({ interval_days: 12, ease_factor: 2.35 });
+    expect(processGrade(reviewCard(), 3, NOW, sm2)).toMatchObject({ interval_days: 34, ease_factor: 2.65 });
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    expect(processGrade(reviewCard({ ease_factor: 1.35 }), 0, NOW, sm2).ease_factor).toBe(1.3);
+    expect(processGrade(reviewCard({ ease_factor: 1.3 }), 1, NOW, sm2).ease_factor).toBe(1.3);
+    expect(processGrade(reviewCard({ ease_factor: 1.3 }), 0, NOW, sm2).ease_factor).toBe(1.3);
+  });
+
+  it('leaves the ease alone during learning steps', () => {
+    const card = { card_state: 'learning', ease_factor: 2.5, step_index: 0 };
+    expect(processGrade(card, 0, NOW, sm2).ease_factor).toBe(2.5);
+    expect(processGrade(card, 3, NOW, sm2).ease_factor).toBe(2.5);
+  });
+});
+
+describe('short-term steps', () => {
+  const options: SchedulerOverrides = { algorithm: 'sm2', learningSteps: [1, 10], relearningSteps: [5, 20] };
+  const newCard = { card_state: 'new', ease_factor: 2.5, step_index: 0 };
+
+  it('walks a new card through the learning steps', () => {
+    const again = processGrade(newCard, 0, NOW, options);
+    expect(again).toMatchObject({ card_state: 'learning', step_index: 0 });
+    expect(minutesUntil(again.due_date)).toBe(1);
+
+    const good = processGrade(newCard, 2, NOW, options);
+    expect(good).toMatchObject({ card_state: 'learning', step_index: 1 });
+    expect(minutesUntil(good.due_date)).toBe(10);
+
+    const hard = processGrade({ ...newCard, card_state: 'learning', step_index: 1 }, 1, NOW, options);
+    expect(hard).toMatchObject({ card_state: 'learning', step_index: 1 });
+    expect(minutesUntil(hard.due_date)).toBe(10);
+  });
+
+  it('graduates after the last step, or straight away on Easy', () => {
+    expect(processGrade({ ...newCard, card_state: 'learning', step_index: 1 }, 2, NOW, options))
+      .toMatchObject({ card_state: 'review', interval_days: 1 });
+    expect(processGrade(newCard, 3, NOW, options)).toMatchObject({ card_state: 'review', interval_days: 4 });
+  });
+
+  it('sends a lapse to the top of the relearning steps', () => {
+    const lapse = processGrade(reviewCard(), 0, NOW, options);
+    expect(lapse).toMatchObject({ card_state: 'relearning', step_index: 0, interval_days: 0 });
+    expect(minutesUntil(lapse.due_date)).toBe(5);
+
+    const next = processGrade({ ...reviewCard(), card_state: 'relearning', step_index: 0 }, 2, NOW, options);
+    expect(next).toMatchObject({ card_state: 'relearning', step_index: 1 });
+    expect(minutesUntil(next.due_date)).toBe(20);
+
+    expect(processGrade({ ...reviewCard(), card_state: 'relearning', step_index: 1 }, 2, NOW, options))
+      .toMatchObject({ card_state: 'review', interval_days: 1 });
+  });
+});
+
+describe('processEarlyReview', () => {
+  const sm2: SchedulerOverrides = { algorithm: 'sm2' };
+
+  it('only credits the part of the interval that has passed', () => {
+    // A Good on time would give 25 days; half the interval has passed
+    expect(processEarlyReview(reviewCard({ last_reviewed_at: daysAgo(5) }), 2, NOW, sm2).interval_days).toBe(18);
+    expect(processEarlyReview(reviewCard({ last_reviewed_at: daysAgo(1) }), 2, NOW, sm2).interval_days).toBe(12);
+  });
+
+  it("doesn't raise the ease", () => {
+    const result = processEarlyReview(reviewCard({ last_reviewed_at: daysAgo(5) }), 3, NOW, sm2);
+    expect(result.ease_factor).toBe(2.5);
+  });
+
+  it('grades on-time reviews and lapses as usual', () => {
+    const due = reviewCard({ last_reviewed_at: daysAgo(10) });
+    expect(processEarlyReview(due, 2, NOW, sm2)).toEqual(processGrade(due, 2, NOW, sm2));
+
+    const early = reviewCard({ last_reviewed_at: daysAgo(2) });
+    expect(processEarlyReview(early, 0, NOW, sm2)).toEqual(processGrade(early, 0, NOW, sm2));
+  });
+
+  it('moves the fixed ladder up a rung only after half the interval', () => {
+    expect(processEarlyReview(reviewCard({ last_reviewed_at: daysAgo(4) }), 2, NOW)).toMatchObject({
+      step_index: 3,
+      interval_days: 16,
+    });
+    expect(processEarlyReview(reviewCard({ last_reviewed_at: daysAgo(6) }), 2, NOW).step_index).toBe(4);
+  });
+});
+
+describe('fuzzRange', () => {
+  it("doesn't fuzz short intervals", () => {
+    expect(fuzzRange(1)).toBeNull();
+    expect(fuzzRange(2)).toBeNull();
+  });
+
+  it('widens the window with the interval', () => {
+    expect(fuzzRange(3)).toEqual([2, 4]);
+    expect(fuzzRange(10)).toEqual([8, 12]);
+    expect(fuzzRange(100)).toEqual([93, 107]);
+  });
+
+  it('stays within the maximum interval', () => {
+    expect(fuzzRange(100, { maximumInterval: 100 })).toEqual([93, 100]);
+  });
+});
+
+describe('balanceInterval', () => {
+  const result = processGrade(reviewCard(), 3, NOW, { algorithm: 'sm2' });
+  const ten = { ...result, interval_days: 10 };
+
+  it('moves a review to the least-loaded day in its range', () => {
+    const moved = balanceInterval(ten, NOW, { 8: 5, 9: 3, 10: 2, 11: 1, 12: 4 }, undefined, () => 0);
+    expect(moved.interval_days).toBe(11);
+    expect(moved.due_date).toBe(new Date(NOW.getTime() + 11 * DAY_MS).toISOString());
+    expect(moved.step_index).toBe(ten.step_index);
+  });
+
+  it('picks at random between equally loaded days', () => {
+    const load = { 8: 2, 9: 0, 10: 1, 11: 0, 12: 2 };
+    expect(balanceInterval(ten, NOW, load, undefined, () => 0).interval_days).toBe(9);
+    expect(balanceInterval(ten, NOW, load, undefined, () => 0.99).interval_days).toBe(11);
+  });
+
+  it('leaves learning steps and short intervals alone', () => {
+    const lapse = processGrade(reviewCard(), 0, NOW);
+    expect(balanceInterval(lapse, NOW, {})).toBe(lapse);
+    const short = { ...result, interval_days: 2 };
+    expect(balanceInterval(short, NOW, {})).toBe(short);
+  });
+});
@@ -1,7 +1,19 @@
 /**
- * Spaced repetition scheduler using fixed interval progression.
+ * Spaced repetition scheduler.
  *
- * Interval progression (step_index):
+ * Three algorithms are available, selected per user via SchedulerOptions:
+ *   fixed — every card walks the same interval ladder (below)
+ *   sm2   — intervals multiplied by the card's ease_factor, which Again/Hard
+ *           lower and Easy raises
+ *   fsrs  — per-card stability/difficulty, intervals sized to hit a target
+ *           retention (see fsrs.ts)
+ *
+ * Step lists, the ladder and interval limits can be overridden per deck
+ * preset; the values below are the defaults. A source can also set its own
+ * target retention: FSRS aims for it directly, while fixed and SM-2 scale
+ * their review intervals by intervalModifier (see intervalModifierForRetention).
+ *
+ * Fixed interval progression (step_index):
  *   0: Day 0   (same day, 10 minutes)
  *   1: Day 1
  *   2: Day 4
@@ -16,24 +28,117 @@
  *   Hard  (1) → repeat current step
  *   Good  (2) → advance to next step
  *   Easy  (3) → skip one step ahead
+ *
+ * SM-2 and FSRS use the same learning steps for new cards, then schedule
+ * reviews their own way. step_index is kept at the nearest ladder rung so
+ * a card can switch back to the fixed progression.
+ *
+ * Reviews taken before they are due (review-ahead sessions) go through
+ * processEarlyReview, which only credits the part of the interval that has
+ * actually passed.
+ *
+ * processGrade is deterministic. When grading for real, balanceInterval then
+ * moves a review of 3+ days to the least-loaded day within a fuzz window
+ * around it, so cards learnt together don't all fall due on the same day.
  */
 
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  retrievability,
+  intervalForRetention,
+  initStability,
+  initDifficulty,
+  nextDifficulty,
+  nextRecallStability,
+  nextForgetStability,
+} from './fsrs';
+
 export interface ScheduleResult {
   card_state: string;
   ease_factor: number;
   interval_days: number;
   step_index: number;
   due_date: string; // ISO string
+  stability?: number;
+  difficulty?: number;
 }
 
-interface CardForScheduling {
+export interface CardForScheduling {
   card_state: string;
   ease_factor: number;
   step_index: number;
+  interval_days?: number;
+  stability?: number | null;
+  difficulty?: number | null;
+  last_reviewed_at?: string | null;
 }
 
-const INTERVAL_STEPS = [0, 1, 4, 10, 25, 60, 150, 365];
-const LEARNING_STEPS_MINUTES = [1, 10];
+export type SchedulerAlgorithm = 'fixed' | 'sm2' | 'fsrs';
+
+export interface Sm2Params {
+  againEaseDelta: number;
+  hardEaseDelta: number;
+  goodEaseDelta: number;
+  easyEaseDelta: number;
+  hardIntervalFactor: number;
+  easyBonus: number;
+}
+
+export interface SchedulerOptions {
+  algorithm: SchedulerAlgorithm;
+  desiredRetention: number; // FSRS only, 0.7–0.99
+  fsrsWeights: number[];
+  sm2Params: Sm2Params;
+  learningSteps: number[]; // minutes
+  relearningSteps: number[]; // minutes (fixed mode only uses the first)
+  intervalLadder: number[]; // days, fixed mode
+  graduatingInterval: number; // days, SM-2
+  maximumInterval: number; // days
+  intervalModifier: number; // fixed & SM-2: review intervals are multiplied by this
+}
+
+/** Cards already due per study day, keyed by days from today. */
+export type DueLoad = Record<number, number>;
+
+/** Options as supplied by callers: any field may be left to its default. */
+export type SchedulerOverrides = Partial<Omit<SchedulerOptions, 'sm2Params'>> & {
+  sm2Params?: Partial<Sm2Params>;
+};
+
+export const DEFAULT_SM2_PARAMS: Sm2Params = {
+  againEaseDelta: -0.2,
+  hardEaseDelta: -0.15,
+  goodEaseDelta: 0,
+  easyEaseDelta: 0.15,
+  hardIntervalFactor: 1.2,
+  easyBonus: 1.3,
+};
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  algorithm: 'fixed',
+  desiredRetention: 0.9,
+  fsrsWeights: DEFAULT_FSRS_WEIGHTS,
+  sm2Params: DEFAULT_SM2_PARAMS,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  intervalLadder: [0, 1, 4, 10, 25, 60, 150, 365],
+  graduatingInterval: 1,
+  maximumInterval: 36500,
+  intervalModifier: 1,
+};
+
+// Fuzz window grows by `factor` days per day of interval within each band (as in Anki)
+const FUZZ_BANDS = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+const MIN_EASE = 1.3;
+// Fixed ladder: share of the interval that must pass before an early pass moves up a rung
+const EARLY_ADVANCE_FRACTION = 0.5;
+const SM2_EASY_INTERVAL = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 function addMinutes(date: Date, minutes: number): Date {
   return new Date(date.getTime() + minutes * 60 * 1000);
@@ -43,21 +148,177 @@ function addDays(date: Date, days: number): Date {
   return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
 }
 
-export function processGrade(card: CardForScheduling, grade: number, now?: Date): ScheduleResult {
+function validSteps(steps: number[] | undefined, fallback: number[], minLength: number): number[] {
+  const cleaned = (steps || []).filter((n) => Number.isFinite(n) && n >= 0);
+  return cleaned.length >= minLength ? cleaned : fallback;
+}
+
+function resolveOptions(options?: SchedulerOverrides): SchedulerOptions {
+  const d = DEFAULT_SCHEDULER_OPTIONS;
+  const maximumInterval = Math.max(options?.maximumInterval ?? d.maximumInterval, 1);
+  return {
+    algorithm: options?.algorithm ?? d.algorithm,
+    desiredRetention: Math.min(Math.max(options?.desiredRetention ?? d.desiredRetention, 0.7), 0.99),
+    fsrsWeights: options?.fsrsWeights?.length === d.fsrsWeights.length ? options.fsrsWeights : d.fsrsWeights,
+    sm2Params: { ...DEFAULT_SM2_PARAMS, ...options?.sm2Params },
+    learningSteps: validSteps(options?.learningSteps, d.learningSteps, 1),
+    relearningSteps: validSteps(options?.relearningSteps, d.relearningSteps, 1),
+    // The fixed ladder needs Day 0 plus at least the graduate and Easy rungs
+    intervalLadder: validSteps(options?.intervalLadder, d.intervalLadder, 3)
+      .map((days) => Math.min(days, maximumInterval)),
+    graduatingInterval: Math.max(options?.graduatingInterval ?? d.graduatingInterval, 1),
+    maximumInterval,
+    intervalModifier: Math.min(Math.max(options?.intervalModifier ?? d.intervalModifier, 0.25), 4),
+  };
+}
+
+/**
+ * Interval modifier that moves retention from `baseline` to `target`. Under
+ * exponential forgetting, stretching an interval by m turns a pass rate r
+ * into r^m, so m = ln(target) / ln(baseline).
+ */
+export function intervalModifierForRetention(target: number, baseline: number): number {
+  const clampRetention = (r: number) => Math.min(Math.max(r, 0.7), 0.99);
+  return Math.log(clampRetention(target)) / Math.log(clampRetention(baseline));
+}
+
+// A ladder interval after the interval modifier: whole days within the limits
+function modifiedInterval(days: number, opts: SchedulerOptions): number {
+  if (days < 1 || opts.intervalModifier === 1) return days;
+  return Math.min(Math.max(Math.round(days * opts.intervalModifier), 1), opts.maximumInterval);
+}
+
+export function processGrade(
+  card: CardForScheduling,
+  grade: number,
+  now?: Date,
+  options?: SchedulerOverrides,
+): ScheduleResult {
   const currentTime = now || new Date();
+  const opts = resolveOptions(options);
   const state = card.card_state;
 
+  if (opts.algorithm === 'fsrs') {
+    return processFsrs(card, grade, currentTime, opts);
+  }
+  if (opts.algorithm === 'sm2') {
+    return processSm2(card, grade, currentTime, opts);
+  }
+
   if (state === 'new' || state === 'learning') {
-    return processLearning(card, grade, currentTime);
+    return processLearning(card, grade, currentTime, opts);
   } else if (state === 'review' || state === 'relearning') {
-    return processReview(card, grade, currentTime);
+    return processReview(card, grade, currentTime, opts);
   } else {
     throw new Error(`Unknown card state: ${state}`);
   }
 }
 
-function processLearning(card: CardForScheduling, grade: number, now: Date): ScheduleResult {
-  const steps = LEARNING_STEPS_MINUTES;
+/**
+ * Grade a review taken before it was due. FSRS already works from the real
+ * elapsed time, and a lapse is a lapse whenever it happens. For fixed and
+ * SM-2, the growth a pass would give is scaled by the fraction of the
+ * interval that has passed: reviewing the day after the last review barely
+ * moves the card, reviewing a day early gets almost the full interval. An
+ * early pass doesn't raise ease, and the fixed ladder only moves up a rung
+ * once at least half the interval has passed.
+ */
+export function processEarlyReview(
+  card: CardForScheduling,
+  grade: number,
+  now: Date = new Date(),
+  options?: SchedulerOverrides,
+): ScheduleResult {
+  const opts = resolveOptions(options);
+  const normal = processGrade(card, grade, now, options);
+  const scheduled = card.interval_days ?? 0;
+  const elapsed = elapsedDays(card, now);
+  if (card.card_state !== 'review' || grade === 0 || opts.algorithm === 'fsrs' || elapsed >= scheduled) {
+    return normal;
+  }
+
+  const fraction = elapsed / scheduled;
+  const grown = scheduled + (normal.interval_days - scheduled) * fraction;
+  const interval = Math.min(Math.max(Math.round(grown), 1), opts.maximumInterval);
+  const stepIndex = opts.algorithm === 'fixed'
+    ? (fraction >= EARLY_ADVANCE_FRACTION ? normal.step_index : card.step_index)
+    : stepForInterval(interval, opts.intervalLadder);
+
+  return {
+    ...normal,
+    ease_factor: Math.min(normal.ease_factor, card.ease_factor),
+    interval_days: interval,
+    step_index: stepIndex,
+    due_date: addDays(now, interval).toISOString(),
+  };
+}
+
+/**
+ * Label for the next interval each grade (0–3) would produce,
+ * e.g. ['1m', '10m', 'Day 1', 'Day 4']. Used for the grade buttons.
+ */
+export function previewIntervals(
+  card: CardForScheduling,
+  options?: SchedulerOverrides,
+  now: Date = new Date(),
+  early: boolean = false,
+): string[] {
+  return [0, 1, 2, 3].map((grade) => {
+    const result = early ? processEarlyReview(card, grade, now, options) : processGrade(card, grade, now, options);
+    if (result.interval_days >= 1) return `Day ${Math.round(result.interval_days)}`;
+    const minutes = Math.round((new Date(result.due_date).getTime() - now.getTime()) / 60000);
+    return `${minutes}m`;
+  });
+}
+
+/**
+ * Range of intervals (days, inclusive) a review may be moved within, or null
+ * when the interval is too short to fuzz.
+ */
+export function fuzzRange(intervalDays: number, options?: SchedulerOverrides): [number, number] | null {
+  if (intervalDays < 2.5) return null;
+  let delta = 1;
+  for (const band of FUZZ_BANDS) {
+    delta += band.factor * Math.max(Math.min(intervalDays, band.end) - band.start, 0);
+  }
+  const min = Math.max(Math.round(intervalDays - delta), 2);
+  const max = Math.min(Math.round(intervalDays + delta), resolveOptions(options).maximumInterval);
+  return min < max ? [min, max] : null;
+}
+
+/**
+ * Move a review to the least-loaded day in its fuzz range, picking at random
+ * between equally loaded days. step_index is left alone so the fixed ladder
+ * keeps its place.
+ */
+export function balanceInterval(
+  result: ScheduleResult,
+  now: Date,
+  load: DueLoad,
+  options?: SchedulerOverrides,
+  random: () => number = Math.random,
+): ScheduleResult {
+  const range = result.card_state === 'review' ? fuzzRange(result.interval_days, options) : null;
+  if (!range) return result;
+
+  let candidates: number[] = [];
+  let lowest = Infinity;
+  for (let days = range[0]; days <= range[1]; days++) {
+    const count = load[days] ?? 0;
+    if (count < lowest) {
+      lowest = count;
+      candidates = [days];
+    } else if (count === lowest) {
+      candidates.push(days);
+    }
+  }
+
+  const interval = candidates[Math.floor(random() * candidates.length)];
+  return { ...result, interval_days: interval, due_date: addDays(now, interval).toISOString() };
+}
+
+function processLearning(card: CardForScheduling, grade: number, now: Date, opts: SchedulerOptions): ScheduleResult {
+  const steps = opts.learningSteps;
   const step = card.step_index;
 
   if (grade === 0) {
@@ -92,7 +353,7 @@ function processLearning(card: CardForScheduling, grade: number, now: Date): Sch
       };
     } else {
       // Graduate into review progression at step 1 (Day 1)
-      const interval = INTERVAL_STEPS[1];
+      const interval = modifiedInterval(opts.intervalLadder[1], opts);
       return {
         card_state: 'review',
         ease_factor: card.ease_factor,
@@ -103,7 +364,7 @@ function processLearning(card: CardForScheduling, grade: number, now: Date): Sch
     }
   } else {
     // Easy: skip learning entirely, jump to step 2 (Day 4)
-    const interval = INTERVAL_STEPS[2];
+    const interval = modifiedInterval(opts.intervalLadder[2], opts);
     return {
       card_state: 'review',
       ease_factor: card.ease_factor,
@@ -114,22 +375,23 @@ function processLearning(card: CardForScheduling, grade: number, now: Date): Sch
   }
 }
 
-function processReview(card: CardForScheduling, grade: number, now: Date): ScheduleResult {
+function processReview(card: CardForScheduling, grade: number, now: Date, opts: SchedulerOptions): ScheduleResult {
+  const ladder = opts.intervalLadder;
   const step = card.step_index;
-  const maxStep = INTERVAL_STEPS.length - 1;
+  const maxStep = ladder.length - 1;
 
   if (grade === 0) {
-    // Again: reset to step 0 (same-day review in 10 minutes)
+    // Again: reset to step 0 (same-day review after the first relearning step)
     return {
       card_state: 'relearning',
       ease_factor: card.ease_factor,
       interval_days: 0,
       step_index: 0,
-      due_date: addMinutes(now, 10).toISOString(),
+      due_date: addMinutes(now, opts.relearningSteps[0]).toISOString(),
     };
   } else if (grade === 1) {
     // Hard: stay at current step
-    const interval = INTERVAL_STEPS[Math.min(step, maxStep)];
+    const interval = modifiedInterval(ladder[Math.min(step, maxStep)], opts);
     return {
       card_state: 'review',
       ease_factor: card.ease_factor,
@@ -140,7 +402,7 @@ function processReview(card: CardForScheduling, grade: number, now: Date): Sched
   } else if (grade === 2) {
     // Good: advance one step
     const nextStep = Math.min(step + 1, maxStep);
-    const interval = INTERVAL_STEPS[nextStep];
+    const interval = modifiedInterval(ladder[nextStep], opts);
     return {
       card_state: 'review',
       ease_factor: card.ease_factor,
@@ -151,7 +413,7 @@ function processReview(card: CardForScheduling, grade: number, now: Date): Sched
   } else {
     // Easy: skip ahead two steps
     const nextStep = Math.min(step + 2, maxStep);
-    const interval = INTERVAL_STEPS[nextStep];
+    const interval = modifiedInterval(ladder[nextStep], opts);
     return {
       card_state: 'review',
       ease_factor: card.ease_factor,
@@ -161,3 +423,157 @@ function processReview(card: CardForScheduling, grade: number, now: Date): Sched
     };
   }
 }
+
+// ── Shared by SM-2 and FSRS ──
+
+/** Highest ladder rung whose interval does not exceed `intervalDays`. */
+function stepForInterval(intervalDays: number, ladder: number[]): number {
+  let step = 0;
+  for (let i = 0; i < ladder.length; i++) {
+    if (ladder[i] <= intervalDays) step = i;
+  }
+  return step;
+}
+
+/**
+ * Same-day step for learning/relearning cards and lapses, or null when the
+ * grade moves the card (back) into the review queue.
+ */
+function shortTermStep(
+  card: CardForScheduling,
+  grade: number,
+  now: Date,
+  ease: number,
+  opts: SchedulerOptions,
+): ScheduleResult | null {
+  const state = card.card_state;
+  if (state === 'review' && grade > 0) return null;
+
+  const learning = state === 'new' || state === 'learning';
+  const steps = learning ? opts.learningSteps : opts.relearningSteps;
+  // A lapse from review starts the relearning steps from the top
+  const step = state === 'new' || state === 'review' ? 0 : card.step_index;
+  if (grade === 3 || (grade === 2 && step + 1 >= steps.length)) return null;
+
+  const nextStep = grade === 0 ? 0 : grade === 1 ? step : step + 1;
+  return {
+    card_state: learning ? 'learning' : 'relearning',
+    ease_factor: ease,
+    interval_days: 0,
+    step_index: nextStep,
+    due_date: addMinutes(now, steps[Math.min(nextStep, steps.length - 1)]).toISOString(),
+  };
+}
+
+function reviewResult(intervalDays: number, ease: number, now: Date, opts: SchedulerOptions): ScheduleResult {
+  // FSRS already sized the interval for the target retention
+  const modifier = opts.algorithm === 'fsrs' ? 1 : opts.intervalModifier;
+  const interval = Math.min(Math.max(Math.round(intervalDays * modifier), 1), opts.maximumInterval);
+  return {
+    card_state: 'review',
+    ease_factor: ease,
+    interval_days: interval,
+    step_index: stepForInterval(interval, opts.intervalLadder),
+    due_date: addDays(now, interval).toISOString(),
+  };
+}
+
+// ── SM-2 ──
+
+function processSm2(card: CardForScheduling, grade: number, now: Date, opts: SchedulerOptions): ScheduleResult {
+  const p = opts.sm2Params;
+  const state = card.card_state;
+  if (state !== 'new' && state !== 'learning' && state !== 'review' && state !== 'relearning') {
+    throw new Error(`Unknown card state: ${state}`);
+  }
+
+  // Ease only moves on graded reviews, not during learning steps
+  let ease = card.ease_factor;
+  if (state === 'review') {
+    if (grade === 0) ease += p.againEaseDelta;
+    else if (grade === 1) ease += p.hardEaseDelta;
+    else if (grade === 2) ease += p.goodEaseDelta;
+    else ease += p.easyEaseDelta;
+    ease = Math.max(Math.round(ease * 100) / 100, MIN_EASE);
+  }
+
+  const shortTerm = shortTermStep(card, grade, now, ease, opts);
+  if (shortTerm) return shortTerm;
+
+  if (state === 'new' || state === 'learning') {
+    const easyInterval = Math.max(SM2_EASY_INTERVAL, opts.graduatingInterval + 1);
+    return reviewResult(grade === 3 ? easyInterval : opts.graduatingInterval, ease, now, opts);
+  }
+  if (state === 'relearning') {
+    // Lapsed card relearnt: restart from the graduating interval
+    return reviewResult(opts.graduatingInterval, ease, now, opts);
+  }
+
+  const current = Math.max(card.interval_days ?? 0, 1);
+  const hard = Math.max(current * p.hardIntervalFactor, current + 1);
+  const good = Math.max(current * ease, hard + 1);
+  const easy = Math.max(current * ease * p.easyBonus, good + 1);
+  const interval = grade === 1 ? hard : grade === 2 ? good : easy;
+
+  return reviewResult(interval, ease, now, opts);
+}
+
+// ── FSRS ──
+
+function processFsrs(card: CardForScheduling, grade: number, now: Date, opts: SchedulerOptions): ScheduleResult {
+  const w = opts.fsrsWeights;
+  const state = card.card_state;
+  if (state !== 'new' && state !== 'learning' && state !== 'review' && state !== 'relearning') {
+    throw new Error(`Unknown card state: ${state}`);
+  }
+
+  // Work out the memory state after this grade
+  const prev = currentMemory(card, w);
+  let stability: number;
+  let difficulty: number;
+  if (!prev) {
+    stability = initStability(grade, w);
+    difficulty = initDifficulty(grade, w);
+  } else if (state === 'review') {
+    const r = retrievability(elapsedDays(card, now), prev.stability);
+    difficulty = nextDifficulty(prev.difficulty, grade, w);
+    stability = grade === 0
+      ? nextForgetStability(prev.difficulty, prev.stability, r, w)
+      : nextRecallStability(prev.difficulty, prev.stability, r, grade, w);
+  } else {
+    // Same-day learning/relearning steps: difficulty moves, stability holds
+    // (except Easy out of learning, which gets at least a first-answer Easy)
+    difficulty = nextDifficulty(prev.difficulty, grade, w);
+    stability = state === 'learning' && grade === 3
+      ? Math.max(prev.stability, initStability(3, w))
+      : prev.stability;
+  }
+
+  const memory = { stability, difficulty };
+
+  const shortTerm = shortTermStep(card, grade, now, card.ease_factor, opts);
+  if (shortTerm) return { ...shortTerm, ...memory };
+
+  const interval = intervalForRetention(stability, opts.desiredRetention);
+  return { ...reviewResult(interval, card.ease_factor, now, opts), ...memory };
+}
+
+function currentMemory(card: CardForScheduling, w: number[]): { stability: number; difficulty: number } | null {
+  if (card.card_state === 'new') return null;
+  if (card.stability != null && card.difficulty != null) {
+    return { stability: card.stability, difficulty: card.difficulty };
+  }
+  if (card.card_state === 'review' || card.card_state === 'relearning') {
+    // Scheduled by another algorithm so far: treat the current interval as stability
+    return { stability: Math.max(card.interval_days ?? 0, 1), difficulty: initDifficulty(2, w) };
+  }
+  return null;
+}
+
+function elapsedDays(card: CardForScheduling, now: Date): number {
+  if (card.last_reviewed_at) {
+    return Math.max((now.getTime() - new Date(card.last_reviewed_at).getTime()) / DAY_MS, 0);
+  }
+  // No review timestamp: assume the card was reviewed on schedule
+  return card.interval_days ?? 0;
+}
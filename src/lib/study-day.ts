@@ -0,0 +1,100 @@
+/**
+ * Study days.
+ *
+ * "Today" for counters, limits and burying is the user's study day: it runs
+ * from rolloverHour in their timezone to rolloverHour the next day, so a
+ * review at 1am with a 4am rollover still counts toward the previous day.
+ * The same rule is applied server-side by the study_day() SQL function.
+ */
+
+export interface DayConfig {
+  timeZone: string; // IANA name, e.g. 'Europe/London'
+  rolloverHour: number; // 0–23
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Building a DateTimeFormat is slow; reuse one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Minutes the timezone is ahead of UTC at the given instant. */
+function offsetMinutes(date: Date, timeZone: string): number {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Wall-clock time in the timezone, shifted back by the rollover, read via getUTC*()
+function shiftedWallClock(date: Date, day: DayConfig): Date {
+  return new Date(date.getTime() + offsetMinutes(date, day.timeZone) * 60000 - day.rolloverHour * HOUR_MS);
+}
+
+/** The study day an instant belongs to, as YYYY-MM-DD. */
+export function studyDayKey(date: Date, day: DayConfig): string {
+  return shiftedWallClock(date, day).toISOString().slice(0, 10);
+}
+
+/** When the study day containing `date` began. */
+export function studyDayStart(date: Date, day: DayConfig): Date {
+  const wall = shiftedWallClock(date, day);
+  const startWall = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), day.rolloverHour);
+  // Convert back to an instant; re-read the offset there in case DST changed since midnight
+  const guess = startWall - offsetMinutes(date, day.timeZone) * 60000;
+  return new Date(startWall - offsetMinutes(new Date(guess), day.timeZone) * 60000);
+}
+
+/** When the study day with the given YYYY-MM-DD key begins. */
+export function studyDayStartOf(key: string, day: DayConfig): Date {
+  // Noon of that study day in wall-clock time is at least ten hours from either end, whatever the offset
+  const noonWall = Date.parse(key) + (day.rolloverHour + 12) * HOUR_MS;
+  const noon = new Date(noonWall - offsetMinutes(new Date(noonWall), day.timeZone) * 60000);
+  return studyDayStart(noon, day);
+}
+
+/** The study day key `days` after the given one. */
+export function addStudyDays(key: string, days: number): string {
+  return new Date(Date.parse(key) + days * 24 * HOUR_MS).toISOString().slice(0, 10);
+}
+
+/** When the study day after the one containing `date` begins. */
+export function nextStudyDayStart(date: Date, day: DayConfig): Date {
+  // Study days are 23–25 hours long, so 26 hours in is always inside the next one
+  return studyDayStart(new Date(studyDayStart(date, day).getTime() + 26 * HOUR_MS), day);
+}
+
+/** Whole days between two study day keys. */
+export function studyDaysBetween(fromKey: string, toKey: string): number {
+  return Math.round((Date.parse(toKey) - Date.parse(fromKey)) / (24 * HOUR_MS));
+}
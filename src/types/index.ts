@@ -1,12 +1,15 @@
+import type { ExamCorrectness, ExamReport } from '../lib/exam';
+
 export interface Card {
   id: number;
   topic_id: number;
-  question_type: 'recall' | 'conceptual' | 'application' | 'mcq' | 'open_ended';
+  question_type: 'recall' | 'conceptual' | 'application' | 'mcq' | 'multi_select' | 'true_false' | 'open_ended' | 'cloze';
   difficulty_tier: 'foundational' | 'intermediate' | 'advanced';
   question_text: string;
   answer_text: string;
   options_json: string | null;
   options?: string[];
+  correct_options_json: string | null; // the correct options' text; null on older MCQs, which name a letter in answer_text
   explanation: string | null;
   tags: string | null;
   card_state: 'new' | 'learning' | 'review' | 'relearning';
@@ -17,6 +20,13 @@ export interface Card {
   review_count: number;
   lapse_count: number;
   is_suspended: boolean;
+  stability: number | null;
+  difficulty: number | null;
+  last_reviewed_at: string | null;
+  buried_until: string | null;
+  note_id: number | null; // the cloze note this card was made from
+  cloze_index: number | null; // which deletion (c1, c2, ...) this card tests
+  is_reverse: boolean; // the back → front card of a reversible note
   created_at: string;
   updated_at: string;
   topic_title?: string;
@@ -32,6 +42,27 @@ export interface ContentSource {
   status: 'pending' | 'processing' | 'imported' | 'processed' | 'error';
   error_message: string | null;
   import_date: string;
+  preset_id: number | null;
+  desired_retention: number | null; // null = global setting
+}
+
+export interface SourceRetention {
+  source_id: number;
+  source_filename: string;
+  desired_retention: number | null;
+  review_count: number;
+  recalled_count: number;
+}
+
+export interface DeckPreset {
+  id: number;
+  name: string;
+  learning_steps_json: string;
+  relearning_steps_json: string;
+  interval_ladder_json: string;
+  graduating_interval: number;
+  easy_bonus: number | null; // null: the global SM-2 easy bonus
+  max_interval: number;
 }
 
 export interface Topic {
@@ -52,24 +83,139 @@ export interface CardStats {
   relearning_count: number;
   suspended_count: number;
   due_count: number;
+  review_due_count: number;
   reviews_today: number;
   correct_today: number;
 }
 
+export interface DailyQuota {
+  new_limit: number;
+  review_limit: number;
+  new_done: number;
+  reviews_done: number;
+  new_remaining: number;
+  review_remaining: number;
+}
+
+export interface Vacation {
+  start: string; // first study day away, YYYY-MM-DD
+  end: string; // last study day away, inclusive
+  applied_at: string; // when due dates were pushed back
+}
+
 export interface GradeResult {
   card_id: number;
   new_state: string;
   new_interval: number;
   new_ease: number;
+  new_step_index: number;
+  new_stability: number | null;
+  new_difficulty: number | null;
   due_date: string;
+  reviewed_at: string;
+  buried_ids: number[];
+  leech: 'tag' | 'suspend' | null; // set when this lapse made the card a leech
+  preview: boolean; // logged only, scheduling untouched
+}
+
+/**
+ * standard: due cards within today's limits. review_ahead: cards due in the
+ * next few days, scheduled with credit for only the time that has passed.
+ * preview: any cards, graded without touching their schedule. custom: cards
+ * matching a SessionFilter. exam: a timed mock test, marked at the end.
+ */
+export type StudyMode = 'standard' | 'review_ahead' | 'preview' | 'custom' | 'exam';
+
+/** Criteria for a custom session. Unset fields don't filter; lists match any of their values. */
+export interface SessionFilter {
+  source_id?: number;
+  topic_id?: number;
+  difficulty_tiers?: Card['difficulty_tier'][];
+  question_types?: Card['question_type'][];
+  card_states?: Card['card_state'][];
+  tags?: string[];
+  min_lapses?: number;
+  failed_within_days?: number; // graded Again in the last N days
+  added_within_days?: number;
+  due_only?: boolean; // leave out cards scheduled for later (new cards still count)
+  limit?: number;
+}
+
+export interface SessionPreset {
+  id: number;
+  name: string;
+  filter: SessionFilter;
 }
 
 export interface StudySession {
-  session_id: number;
+  session_id: number | null; // null when nothing matched, so no session row was opened
   cards: Card[];
   total_available: number;
 }
 
+/** Where a session's queue stands, saved on the session row so a reload can resume it. */
+export interface SessionProgress {
+  card_ids: number[];
+  pending_ids: number[]; // learning cards waiting for their step to elapse
+  index: number;
+  topic_scoped: boolean;
+}
+
+/** An unfinished session restored after a reload. */
+export interface ResumedSession {
+  session_id: number;
+  mode: StudyMode;
+  cards: Card[];
+  pending: Card[];
+  index: number;
+  topic_scoped: boolean;
+  cards_studied: number;
+  cards_correct: number;
+}
+
+export interface ExamConfig {
+  source_ids: number[];
+  question_count: number;
+  time_limit_minutes: number;
+  mcq_share: number | null; // 0–1, fraction of questions that are multiple choice where available; null samples regardless of type
+  update_schedule: boolean; // grade the answered cards as early reviews
+}
+
+export interface ExamSession {
+  session_id: number;
+  config: ExamConfig;
+  cards: Card[];
+  deadline: string;
+}
+
+export interface ExamAnswer {
+  card_id: number;
+  user_answer: string; // empty when left unanswered
+  time_taken_ms: number;
+}
+
+export interface ExamResultItem {
+  card: Card;
+  user_answer: string;
+  correctness: ExamCorrectness;
+  feedback: string;
+}
+
+export interface ExamResult {
+  session_id: number;
+  report: ExamReport;
+  items: ExamResultItem[];
+}
+
+/** A past exam, for the history list. */
+export interface ExamSummary {
+  session_id: number;
+  started_at: string;
+  source_ids: number[];
+  questions: number;
+  score_pct: number;
+}
+
 export interface TutorMessage {
   role: 'user' | 'assistant';
   content: string;
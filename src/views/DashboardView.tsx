@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
-import { getCardStats } from '../api/client'
-import type { CardStats } from '../types'
+import { getCardStats, getDailyQuota, getVacation, endVacation, spreadBacklog } from '../api/client'
+import type { CardStats, DailyQuota, Vacation } from '../types'
 
 type View = 'dashboard' | 'import' | 'study' | 'library' | 'reports' | 'settings'
 
@@ -10,6 +10,11 @@ interface Props {
 
 export default function DashboardView({ onNavigate }: Props) {
   const [stats, setStats] = useState<CardStats | null>(null)
+  const [quota, setQuota] = useState<DailyQuota | null>(null)
+  const [vacation, setVacation] = useState<Vacation | null>(null)
+  const [spreadDays, setSpreadDays] = useState(7)
+  const [spreading, setSpreading] = useState(false)
+  const [notice, setNotice] = useState('')
   const [error, setError] = useState('')
 
   useEffect(() => {
@@ -18,29 +23,78 @@ export default function DashboardView({ onNavigate }: Props) {
 
   async function loadStats() {
     try {
-      const data = await getCardStats()
+      const [data, quotaData, vacationData] = await Promise.all([getCardStats(), getDailyQuota(), getVacation()])
       setStats(data)
+      setQuota(quotaData)
+      setVacation(vacationData)
     } catch (e: any) {
       setError(e.message)
     }
   }
 
+  async function handleEndVacation() {
+    try {
+      const moved = await endVacation()
+      setNotice(`Welcome back! ${moved} cards moved back to their original schedule.`)
+      await loadStats()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function handleSpread() {
+    setSpreading(true)
+    try {
+      const moved = await spreadBacklog(spreadDays)
+      setNotice(`Spread ${moved} overdue cards over the next ${spreadDays} days.`)
+      await loadStats()
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setSpreading(false)
+    }
+  }
+
+  // What a session started now would actually contain: relearning is never
+  // capped, reviews and new cards are held to what's left of today's quota
+  const dueAvailable = stats && quota
+    ? stats.due_count - stats.review_due_count + Math.min(stats.review_due_count, quota.review_remaining)
+    : 0
+  const studyAvailable = stats && quota
+    ? dueAvailable + Math.min(stats.new_count, quota.new_remaining) + stats.learning_count
+    : 0
+
   return (
     <div className="dashboard">
       <h1>Dashboard</h1>
 
       {error && <div className="error-msg">{error}</div>}
+      {notice && <div className="success-msg">{notice}</div>}
+
+      {vacation && (
+        <div className="card vacation-banner">
+          <span>
+            Vacation from <strong>{vacation.start}</strong> to <strong>{vacation.end}</strong> — reviews due in that
+            time have been pushed back.
+          </span>
+          <button className="btn btn-secondary" onClick={handleEndVacation}>
+            End Vacation
+          </button>
+        </div>
+      )}
 
-      {stats && (
+      {stats && quota && (
         <>
           <div className="stats-grid">
             <button
               className="card stat-card stat-card-clickable"
-              onClick={() => stats.due_count > 0 && onNavigate('study', { autoStart: true })}
-              disabled={stats.due_count === 0}
+              onClick={() => dueAvailable > 0 && onNavigate('study', { autoStart: true })}
+              disabled={dueAvailable === 0}
             >
-              <div className="stat-number">{stats.due_count}</div>
-              <div className="stat-label">Cards Due</div>
+              <div className="stat-number">{dueAvailable}</div>
+              <div className="stat-label">
+                Cards Due{dueAvailable < stats.due_count && ` (${stats.due_count - dueAvailable} over limit)`}
+              </div>
             </button>
             <div className="card stat-card">
               <div className="stat-number">{stats.reviews_today}</div>
@@ -71,14 +125,44 @@ export default function DashboardView({ onNavigate }: Props) {
             </div>
           </div>
 
+          <div className="daily-quota">
+            <span>
+              New today: <strong>{quota.new_remaining}</strong> of {quota.new_limit} left
+            </span>
+            <span>
+              Reviews today: <strong>{quota.review_remaining}</strong> of {quota.review_limit} left
+            </span>
+          </div>
+
+          {stats.review_due_count > quota.review_limit && (
+            <div className="backlog-tool">
+              <span>
+                {stats.review_due_count} reviews are due — more than a day's limit. Spread them over the next
+              </span>
+              <input
+                type="number"
+                value={spreadDays}
+                onChange={(e) => setSpreadDays(Math.max(parseInt(e.target.value) || 2, 2))}
+                min={2}
+                max={60}
+              />
+              <span>days</span>
+              <button className="btn btn-secondary" onClick={handleSpread} disabled={spreading}>
+                {spreading ? 'Spreading...' : 'Spread Backlog'}
+              </button>
+            </div>
+          )}
+
           <button
             className="start-button"
             onClick={() => onNavigate('study')}
-            disabled={stats.due_count === 0 && stats.new_count === 0 && stats.learning_count === 0}
+            disabled={studyAvailable === 0}
           >
-            {stats.due_count > 0 || stats.new_count > 0 || stats.learning_count > 0
-              ? `Start Studying (${stats.due_count + stats.new_count + stats.learning_count} cards)`
-              : 'No Cards to Study'}
+            {studyAvailable > 0
+              ? `Start Studying (${studyAvailable} cards)`
+              : stats.due_count + stats.new_count > 0
+                ? 'Daily Limit Reached'
+                : 'No Cards to Study'}
           </button>
 
           {stats.total === 0 && (
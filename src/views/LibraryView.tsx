@@ -1,9 +1,26 @@
 import { useState, useEffect } from 'react'
-import { getAllCards, suspendCard, unsuspendCard, deleteCard, rescheduleCard, updateCard, mergeCards } from '../api/client'
+import { getAllCards, saveClozeCard, saveReversibleCard, addReverseCard, suspendCard, unsuspendCard, deleteCard, rescheduleCard, updateCard, mergeCards, suggestLeechFix, applyLeechFix } from '../api/client'
+import { LEECH_TAG, hasTag } from '../lib/leech'
+import { clozePrompt } from '../lib/cloze'
+import { choiceQuestion, isChoiceType, optionLetter } from '../lib/mcq'
+import ClozeText from '../components/ClozeText'
+import type { GeneratedQuestion } from '../lib/question-generator'
 import type { Card } from '../types'
 
 const INTERVAL_LABELS = ['Day 0', 'Day 1', 'Day 4', 'Day 10', 'Day 25', 'Day 60', 'Day 150', 'Day 365'];
 
+// What the card asks, as plain text: a cloze card's own deletions show as blanks
+function questionLabel(card: Card): string {
+  return card.question_type === 'cloze' && card.cloze_index
+    ? clozePrompt(card.question_text, card.cloze_index)
+    : card.question_text
+}
+
+// One of the two cards of a reversible note
+function isReversible(card: Card): boolean {
+  return card.note_id !== null && card.question_type !== 'cloze'
+}
+
 function formatDueDate(card: Card): string {
   if (card.card_state === 'new') return 'New'
   if (!card.due_date) return 'Not scheduled'
@@ -21,6 +38,7 @@ function formatDueDate(card: Card): string {
 export default function LibraryView() {
   const [cards, setCards] = useState<Card[]>([])
   const [search, setSearch] = useState('')
+  const [leechesOnly, setLeechesOnly] = useState(false)
   const [expandedSources, setExpandedSources] = useState<Set<string>>(new Set())
   const [error, setError] = useState('')
 
@@ -31,6 +49,7 @@ export default function LibraryView() {
   const [editExplanation, setEditExplanation] = useState('')
   const [editType, setEditType] = useState('')
   const [editDifficulty, setEditDifficulty] = useState('')
+  const [editAddReverse, setEditAddReverse] = useState(false)
 
   // Preview modal state
   const [previewCard, setPreviewCard] = useState<Card | null>(null)
@@ -45,6 +64,11 @@ export default function LibraryView() {
   const [mergeQuestion, setMergeQuestion] = useState('')
   const [mergeAnswer, setMergeAnswer] = useState('')
 
+  // Leech fix state
+  const [fixingCard, setFixingCard] = useState<Card | null>(null)
+  const [fixSuggestion, setFixSuggestion] = useState<GeneratedQuestion | null>(null)
+  const [fixLoading, setFixLoading] = useState(false)
+
   useEffect(() => {
     loadCards()
   }, [])
@@ -100,18 +124,32 @@ export default function LibraryView() {
     setEditExplanation(card.explanation || '')
     setEditType(card.question_type)
     setEditDifficulty(card.difficulty_tier)
+    setEditAddReverse(false)
   }
 
   async function handleSaveEdit() {
     if (!editingCard) return
     try {
-      await updateCard(editingCard.id, {
-        question_text: editQuestion,
-        answer_text: editAnswer,
-        explanation: editExplanation || null,
-        question_type: editType,
-        difficulty_tier: editDifficulty,
-      })
+      if (editType === 'cloze') {
+        // The answers come from the deletions; the note's other cards follow the edit
+        await saveClozeCard(editingCard.id, editQuestion, editExplanation || null, editDifficulty)
+      } else if (isReversible(editingCard) && !isChoiceType(editType)) {
+        // Rewrites the linked reverse card too, with question and answer swapped
+        await saveReversibleCard(editingCard.id, editQuestion, editAnswer, editExplanation || null, editType, editDifficulty)
+      } else {
+        await updateCard(editingCard.id, {
+          question_text: editQuestion,
+          answer_text: editAnswer,
+          explanation: editExplanation || null,
+          question_type: editType,
+          difficulty_tier: editDifficulty,
+          // Changing a cloze or reversible card to another type takes it out of its note
+          note_id: null,
+          cloze_index: null,
+          is_reverse: false,
+        })
+        if (editAddReverse) await addReverseCard(editingCard.id)
+      }
       setEditingCard(null)
       await loadCards()
     } catch (e: any) {
@@ -119,6 +157,34 @@ export default function LibraryView() {
     }
   }
 
+  function openFixModal(card: Card) {
+    setFixingCard(card)
+    setFixSuggestion(null)
+  }
+
+  async function handleSuggestFix(mode: 'rewrite' | 'regenerate') {
+    if (!fixingCard) return
+    setFixLoading(true)
+    try {
+      setFixSuggestion(await suggestLeechFix(fixingCard.id, mode))
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setFixLoading(false)
+    }
+  }
+
+  async function handleApplyFix() {
+    if (!fixingCard || !fixSuggestion) return
+    try {
+      await applyLeechFix(fixingCard.id, fixSuggestion)
+      setFixingCard(null)
+      await loadCards()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
   function toggleCardSelection(cardId: number) {
     setSelectedCards((prev) => {
       const next = new Set(prev)
@@ -169,7 +235,9 @@ export default function LibraryView() {
   }
 
   // Filter
+  const leechCount = cards.filter((c) => hasTag(c.tags, LEECH_TAG)).length
   const filtered = cards.filter((card) => {
+    if (leechesOnly && !hasTag(card.tags, LEECH_TAG)) return false
     if (!search) return true
     const q = search.toLowerCase()
     return (
@@ -192,11 +260,15 @@ export default function LibraryView() {
 
   function stepLabel(card: Card): string {
     if (card.card_state === 'new') return 'New'
+    // SM-2/FSRS intervals fall between ladder rungs, so show the real interval
+    if (card.card_state === 'review') return `Day ${Math.round(card.interval_days)}`
     const step = card.step_index
     if (step >= 0 && step < INTERVAL_LABELS.length) return INTERVAL_LABELS[step]
     return `Step ${step}`
   }
 
+  const previewChoice = previewCard ? choiceQuestion(previewCard) : null
+
   return (
     <div className="library-view">
       <h1>Library ({cards.length} cards)</h1>
@@ -211,6 +283,15 @@ export default function LibraryView() {
           onChange={(e) => setSearch(e.target.value)}
           style={{ flex: 1, marginBottom: 0 }}
         />
+        {(leechCount > 0 || leechesOnly) && (
+          <button
+            className={`btn ${leechesOnly ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setLeechesOnly(!leechesOnly)}
+            title="Cards that keep lapsing"
+          >
+            Leeches ({leechCount})
+          </button>
+        )}
         {selectedCards.size >= 2 && (
           <button className="btn btn-primary" onClick={openMergeDialog}>
             Merge Selected ({selectedCards.size})
@@ -228,7 +309,9 @@ export default function LibraryView() {
           <h3>{cards.length === 0 ? 'No cards yet' : 'No matching cards'}</h3>
           <p>{cards.length === 0
             ? 'Import content and generate questions to see cards here.'
-            : 'Try a different search term.'
+            : leechesOnly && !search
+              ? 'No leeches — nothing is lapsing repeatedly.'
+              : 'Try a different search term.'
           }</p>
         </div>
       ) : (
@@ -283,18 +366,24 @@ export default function LibraryView() {
                             />
                           </td>
                           <td
-                            title={card.question_text}
+                            title={questionLabel(card)}
                             className="library-question-cell"
                             onClick={() => openPreview(card)}
                           >
-                            {card.question_text.length > 60
-                              ? card.question_text.slice(0, 60) + '...'
-                              : card.question_text}
+                            {questionLabel(card).length > 60
+                              ? questionLabel(card).slice(0, 60) + '...'
+                              : questionLabel(card)}
                           </td>
                           <td>
                             <span className="badge badge-type">{card.question_type}</span>
+                            {card.is_reverse && <span className="badge badge-type" title="Asks this note's answer → question">reverse</span>}
+                          </td>
+                          <td>
+                            {card.card_state}
+                            {hasTag(card.tags, LEECH_TAG) && (
+                              <span className="badge badge-leech" title={`${card.lapse_count} lapses`}>leech</span>
+                            )}
                           </td>
-                          <td>{card.card_state}</td>
                           <td>{stepLabel(card)}</td>
                           <td style={{ position: 'relative' }}>
                             <span
@@ -348,6 +437,15 @@ export default function LibraryView() {
                               >
                                 Edit
                               </button>
+                              {hasTag(card.tags, LEECH_TAG) && (
+                                <button
+                                  className="btn btn-primary"
+                                  onClick={() => openFixModal(card)}
+                                  style={{ fontSize: '11px', padding: '4px 8px' }}
+                                >
+                                  Fix
+                                </button>
+                              )}
                               <button
                                 className="btn btn-secondary"
                                 onClick={() => handleSuspend(card.id, card.is_suspended)}
@@ -381,15 +479,22 @@ export default function LibraryView() {
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <h3>Edit Card</h3>
             <div style={{ marginBottom: '12px' }}>
-              <label style={{ fontSize: '12px', color: '#9898b0', display: 'block', marginBottom: '4px' }}>Question</label>
+              <label style={{ fontSize: '12px', color: '#9898b0', display: 'block', marginBottom: '4px' }}>
+                {editType === 'cloze' ? 'Cloze text' : 'Question'}
+              </label>
               <textarea
                 value={editQuestion}
                 onChange={(e) => setEditQuestion(e.target.value)}
                 rows={3}
                 style={{ width: '100%', padding: '8px', borderRadius: '6px', border: '1px solid #3a3a5a', fontSize: '14px', boxSizing: 'border-box', background: '#16162a', color: '#e0e0e8' }}
               />
+              {editType === 'cloze' && (
+                <div style={{ fontSize: '12px', color: '#7a7a92', marginTop: '4px' }}>
+                  Mark each deletion as {'{{c1::answer}}'} or {'{{c1::answer::hint}}'}. Each number (c1, c2, ...) becomes its own card.
+                </div>
+              )}
             </div>
-            <div style={{ marginBottom: '12px' }}>
+            {editType !== 'cloze' && <div style={{ marginBottom: '12px' }}>
               <label style={{ fontSize: '12px', color: '#9898b0', display: 'block', marginBottom: '4px' }}>Answer</label>
               <textarea
                 value={editAnswer}
@@ -397,7 +502,7 @@ export default function LibraryView() {
                 rows={4}
                 style={{ width: '100%', padding: '8px', borderRadius: '6px', border: '1px solid #3a3a5a', fontSize: '14px', boxSizing: 'border-box', background: '#16162a', color: '#e0e0e8' }}
               />
-            </div>
+            </div>}
             <div style={{ marginBottom: '12px' }}>
               <label style={{ fontSize: '12px', color: '#9898b0', display: 'block', marginBottom: '4px' }}>Explanation</label>
               <textarea
@@ -415,8 +520,11 @@ export default function LibraryView() {
                   <option value="recall">Recall</option>
                   <option value="conceptual">Conceptual</option>
                   <option value="mcq">MCQ</option>
+                  <option value="multi_select">Choose All That Apply</option>
+                  <option value="true_false">True / False</option>
                   <option value="open_ended">Open Ended</option>
                   <option value="application">Application</option>
+                  <option value="cloze">Cloze</option>
                 </select>
               </div>
               <div>
@@ -429,6 +537,23 @@ export default function LibraryView() {
                 </select>
               </div>
             </div>
+            {editType !== 'cloze' && !isChoiceType(editType) && (
+              isReversible(editingCard) ? (
+                <p style={{ fontSize: '12px', color: '#7a7a92', marginBottom: '16px' }}>
+                  {editingCard.is_reverse ? 'This is the reverse of another card' : 'This card has a reverse card'}
+                  {' '}— saving updates both, with question and answer swapped.
+                </p>
+              ) : (
+                <label style={{ fontSize: '13px', color: '#9898b0', display: 'block', marginBottom: '16px' }}>
+                  <input
+                    type="checkbox"
+                    checked={editAddReverse}
+                    onChange={(e) => setEditAddReverse(e.target.checked)}
+                  />
+                  {' '}Also ask it the other way round (adds a reverse card, scheduled separately)
+                </label>
+              )
+            )}
             <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
               <button className="btn btn-secondary" onClick={() => setEditingCard(null)}>Cancel</button>
               <button className="btn btn-primary" onClick={handleSaveEdit}>Save</button>
@@ -437,6 +562,55 @@ export default function LibraryView() {
         </div>
       )}
 
+      {/* Leech Fix Modal */}
+      {fixingCard && (
+        <div className="modal-overlay" onClick={() => setFixingCard(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ maxWidth: '700px' }}>
+            <h3>Fix Leech</h3>
+            <p style={{ fontSize: '13px', color: '#9898b0', marginBottom: '12px' }}>
+              This card has lapsed {fixingCard.lapse_count} times. Rewrite it to ask the same thing more clearly,
+              or regenerate a new card on the same idea from the topic's notes.
+            </p>
+            <div className="preview-section">
+              <div className="preview-label">CURRENT QUESTION</div>
+              <div className="preview-text">{fixingCard.question_text}</div>
+              <div className="preview-label" style={{ marginTop: '8px' }}>CURRENT ANSWER</div>
+              <div className="preview-text" style={{ color: '#9898b0' }}>{fixingCard.answer_text}</div>
+            </div>
+
+            {fixSuggestion && (
+              <div className="preview-section" style={{ marginTop: '16px' }}>
+                <div className="preview-label">SUGGESTED QUESTION ({fixSuggestion.question_type})</div>
+                <div className="preview-text">{fixSuggestion.question_text}</div>
+                {fixSuggestion.options && (
+                  <div className="preview-options">
+                    {fixSuggestion.options.map((opt, i) => (
+                      <div key={i} className={`preview-option${fixSuggestion.correct_options?.includes(opt) ? ' correct' : ''}`}>
+                        {optionLetter(i)}) {opt}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="preview-label" style={{ marginTop: '8px' }}>SUGGESTED ANSWER</div>
+                <div className="preview-text preview-answer-text">{fixSuggestion.answer_text}</div>
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '16px' }}>
+              <button className="btn btn-secondary" onClick={() => handleSuggestFix('rewrite')} disabled={fixLoading}>
+                {fixLoading ? 'Working...' : 'Rewrite with AI'}
+              </button>
+              <button className="btn btn-secondary" onClick={() => handleSuggestFix('regenerate')} disabled={fixLoading}>
+                Regenerate with AI
+              </button>
+              <button className="btn btn-primary" onClick={handleApplyFix} disabled={!fixSuggestion || fixLoading}>
+                Replace Card
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Preview Modal */}
       {previewCard && (
         <div className="modal-overlay" onClick={() => setPreviewCard(null)}>
@@ -452,13 +626,20 @@ export default function LibraryView() {
             <div className="preview-body">
               <div className="preview-section">
                 <div className="preview-label">QUESTION</div>
-                <div className="preview-text">{previewCard.question_text}</div>
+                <div className="preview-text">
+                  {previewCard.question_type === 'cloze' && previewCard.cloze_index
+                    ? <ClozeText text={previewCard.question_text} index={previewCard.cloze_index} revealed={previewShowAnswer} />
+                    : previewCard.question_text}
+                </div>
               </div>
 
-              {previewCard.question_type === 'mcq' && previewCard.options_json && (
+              {previewChoice && (
                 <div className="preview-options">
-                  {JSON.parse(previewCard.options_json).map((opt: string, i: number) => (
-                    <div key={i} className="preview-option">{opt}</div>
+                  {previewChoice.multiple && <div className="preview-label">CHOOSE ALL THAT APPLY</div>}
+                  {previewChoice.options.map((opt, i) => (
+                    <div key={i} className={`preview-option${previewShowAnswer && previewChoice.correct.includes(opt) ? ' correct' : ''}`}>
+                      {optionLetter(i)}) {opt}
+                    </div>
                   ))}
                 </div>
               )}
@@ -1,5 +1,10 @@
 import { useState, useEffect, useMemo } from 'react'
-import { getReports } from '../api/client'
+import { getReports, getForecastInput, getSourceRetention, getSettings } from '../api/client'
+import { simulateWorkload } from '../lib/forecast'
+import { addStudyDays } from '../lib/study-day'
+import { DEFAULT_SCHEDULER_OPTIONS } from '../lib/scheduler'
+import type { SourceRetention } from '../types'
+import type { ForecastInput } from '../lib/forecast'
 
 interface TopicStat {
   topic_id: number;
@@ -25,27 +30,65 @@ interface ScheduleOverview {
   new_cards: number;
 }
 
+const FORECAST_RANGES = [30, 90, 180, 365]
+// Fewer scheduled reviews than this and a source's pass rate is mostly noise
+const MIN_RETENTION_REVIEWS = 30
+// Within this many points of the target counts as on target
+const RETENTION_TOLERANCE = 0.03
+
+function labelForDay(date: string): string {
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
 type SortKey = 'source_filename' | 'topic_title' | 'total_reviews' | 'accuracy_pct' | 'avg_time_sec'
 
 export default function ReportsView() {
   const [topicStats, setTopicStats] = useState<TopicStat[]>([])
   const [dailyStats, setDailyStats] = useState<DailyStat[]>([])
   const [schedule, setSchedule] = useState<ScheduleOverview | null>(null)
+  const [today, setToday] = useState<string | null>(null)
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(true)
   const [sortKey, setSortKey] = useState<SortKey>('source_filename')
   const [sortAsc, setSortAsc] = useState(true)
+  const [forecastInput, setForecastInput] = useState<ForecastInput | null>(null)
+  const [forecastDays, setForecastDays] = useState(30)
+  const [extraNewCards, setExtraNewCards] = useState(0)
+  const [retention, setRetention] = useState<SourceRetention[]>([])
+  const [globalTarget, setGlobalTarget] = useState(DEFAULT_SCHEDULER_OPTIONS.desiredRetention)
 
   useEffect(() => {
     loadReports()
+    loadForecast()
+    loadRetention()
   }, [])
 
+  async function loadRetention() {
+    try {
+      const [rows, settings] = await Promise.all([getSourceRetention(), getSettings()])
+      setRetention(rows)
+      setGlobalTarget(settings.desired_retention ?? DEFAULT_SCHEDULER_OPTIONS.desiredRetention)
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function loadForecast() {
+    try {
+      setForecastInput(await getForecastInput())
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
   async function loadReports() {
     try {
       const data = await getReports()
       setTopicStats(data.topic_stats || [])
       setDailyStats(data.daily_stats || [])
       setSchedule(data.schedule_overview || null)
+      setToday(data.today || null)
     } catch (e: any) {
       setError(e.message)
     } finally {
@@ -74,27 +117,40 @@ export default function ReportsView() {
     return sorted
   }, [topicStats, sortKey, sortAsc])
 
-  // Build daily chart data: fill in missing days with zeros
+  // Build daily chart data: fill in missing study days with zeros, counting back from the server's today
   const chartData = useMemo(() => {
     const result: { date: string; reviews: number; correct: number; label: string }[] = []
-    const now = new Date()
+    if (!today) return result
     for (let i = 29; i >= 0; i--) {
-      const d = new Date(now)
-      d.setDate(d.getDate() - i)
-      const dateStr = d.toISOString().split('T')[0]
+      const dateStr = addStudyDays(today, -i)
       const found = dailyStats.find((s) => s.review_date === dateStr)
       result.push({
         date: dateStr,
         reviews: found?.review_count || 0,
         correct: found?.correct_count || 0,
-        label: d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        label: labelForDay(dateStr),
       })
     }
     return result
-  }, [dailyStats])
+  }, [dailyStats, today])
 
   const maxReviews = Math.max(1, ...chartData.map((d) => d.reviews))
 
+  const forecast = useMemo(
+    () => (forecastInput ? simulateWorkload({ ...forecastInput, extraNewCards }, forecastDays) : []),
+    [forecastInput, forecastDays, extraNewCards],
+  )
+  const maxForecast = Math.max(1, ...forecast.map((d) => d.reviews + d.newCards))
+  const avgForecast = forecast.length
+    ? Math.round(forecast.reduce((sum, d) => sum + d.reviews + d.newCards, 0) / forecast.length)
+    : 0
+  const peakForecast = forecast.reduce(
+    (peak, d) => (d.reviews + d.newCards > peak.reviews + peak.newCards ? d : peak),
+    forecast[0],
+  )
+  const finalBacklog = forecast.length ? forecast[forecast.length - 1].backlog : 0
+  const forecastLabelEvery = Math.ceil(forecastDays / 6)
+
   if (loading) {
     return (
       <div className="reports-view">
@@ -144,6 +200,72 @@ export default function ReportsView() {
         </div>
       )}
 
+      {/* Workload Forecast */}
+      <div className="reports-section">
+        <h2>Workload Forecast</h2>
+        <div className="forecast-controls">
+          <label>
+            Next{' '}
+            <select value={forecastDays} onChange={(e) => setForecastDays(Number(e.target.value))}>
+              {FORECAST_RANGES.map((days) => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            If I import{' '}
+            <input
+              type="number"
+              value={extraNewCards}
+              onChange={(e) => setExtraNewCards(Math.max(parseInt(e.target.value) || 0, 0))}
+              min={0}
+              step={10}
+            />{' '}
+            more cards now
+          </label>
+        </div>
+        {!forecastInput ? (
+          <p style={{ color: '#7a7a92', fontSize: '14px' }}>Simulating...</p>
+        ) : (
+          <div className="daily-chart">
+            <div className="chart-bars">
+              {forecast.map((d, i) => (
+                <div
+                  key={d.date}
+                  className="chart-bar-container"
+                  title={`${labelForDay(d.date)}: ${d.reviews} reviews, ${d.newCards} new, ${d.learning} learning steps${d.backlog ? `, ${d.backlog} held over` : ''}`}
+                >
+                  <div className="chart-bar-stack" style={{ height: `${((d.reviews + d.newCards) / maxForecast) * 100}%` }}>
+                    <div
+                      className="chart-bar forecast-new"
+                      style={{ height: d.reviews + d.newCards > 0 ? `${(d.newCards / (d.reviews + d.newCards)) * 100}%` : '0%' }}
+                    />
+                    <div
+                      className="chart-bar forecast-review"
+                      style={{ height: d.reviews + d.newCards > 0 ? `${(d.reviews / (d.reviews + d.newCards)) * 100}%` : '0%' }}
+                    />
+                  </div>
+                  {i % forecastLabelEvery === 0 && <div className="chart-label">{labelForDay(d.date)}</div>}
+                </div>
+              ))}
+            </div>
+            <div className="chart-legend">
+              <span><span className="legend-dot forecast-review" /> Reviews</span>
+              <span><span className="legend-dot forecast-new" /> New</span>
+            </div>
+            <p className="forecast-summary">
+              About <strong>{avgForecast}</strong> cards a day
+              {peakForecast && <>, peaking at <strong>{peakForecast.reviews + peakForecast.newCards}</strong> on {labelForDay(peakForecast.date)}</>}.
+              {finalBacklog > 0 && (
+                <span style={{ color: '#f87171' }}>
+                  {' '}Reviews outgrow your daily limit: {finalBacklog} would be held over by the end.
+                </span>
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Daily Activity Chart */}
       <div className="reports-section">
         <h2>Daily Activity (Last 30 Days)</h2>
@@ -176,6 +298,56 @@ export default function ReportsView() {
         )}
       </div>
 
+      {/* Retention by Source */}
+      {retention.length > 0 && (
+        <div className="reports-section">
+          <h2>Retention by Subject (Last 90 Days)</h2>
+          <p style={{ color: '#7a7a92', fontSize: '13px', marginBottom: '12px' }}>
+            Pass rate of scheduled reviews against each subject's target. Adjust targets in Settings → Subject Retention.
+          </p>
+          <table className="card-table reports-table">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th style={{ textAlign: 'right' }}>Target</th>
+                <th style={{ textAlign: 'right' }}>Actual</th>
+                <th style={{ textAlign: 'right' }}>Reviews</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {retention.map((row) => {
+                const target = row.desired_retention ?? globalTarget
+                const actual = row.review_count > 0 ? row.recalled_count / row.review_count : 0
+                const enough = row.review_count >= MIN_RETENTION_REVIEWS
+                const status = !enough
+                  ? { text: 'Not enough reviews yet', color: '#4a4a62' }
+                  : actual < target - RETENTION_TOLERANCE
+                    ? { text: 'Below target — intervals may be too long', color: '#f87171' }
+                    : actual > target + RETENTION_TOLERANCE
+                      ? { text: 'Above target — room to space out', color: '#60a5fa' }
+                      : { text: 'On target', color: '#4ade80' }
+                return (
+                  <tr key={row.source_id}>
+                    <td style={{ maxWidth: '200px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {row.source_filename}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      {Math.round(target * 100)}%{row.desired_retention == null && <span style={{ color: '#4a4a62' }}> (default)</span>}
+                    </td>
+                    <td style={{ textAlign: 'right', color: status.color, fontWeight: 600 }}>
+                      {row.review_count > 0 ? `${(actual * 100).toFixed(1)}%` : '--'}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>{row.review_count}</td>
+                    <td style={{ color: status.color }}>{status.text}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Topic Performance Table */}
       <div className="reports-section">
         <h2>Topic Performance</h2>
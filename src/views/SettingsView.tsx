@@ -1,13 +1,111 @@
 import { useState, useEffect } from 'react'
-import { getSettings, updateSetting } from '../api/client'
+import {
+  getSettings, updateSetting, getSources, getDeckPresets, createDeckPreset, updateDeckPreset,
+  deleteDeckPreset, setSourcePreset, setSourceRetention, getDayConfig, getVacation, startVacation, endVacation,
+} from '../api/client'
+import ParameterOptimizer from '../components/ParameterOptimizer'
+import { deviceTimeZone, isValidTimeZone, studyDayKey, addStudyDays } from '../lib/study-day'
+import type { ContentSource, DeckPreset, Vacation } from '../types'
+
+function formatSteps(json: string): string {
+  try {
+    return JSON.parse(json).join(', ')
+  } catch {
+    return ''
+  }
+}
+
+function parseSteps(text: string): number[] {
+  return text.split(',').map((s) => parseFloat(s.trim())).filter((n) => Number.isFinite(n) && n >= 0)
+}
+
+interface PresetEditorProps {
+  preset: DeckPreset
+  onSave: (updates: Partial<Omit<DeckPreset, 'id'>>) => void
+  onDelete: () => void
+}
+
+function PresetEditor({ preset, onSave, onDelete }: PresetEditorProps) {
+  const [name, setName] = useState(preset.name)
+  const [learningSteps, setLearningSteps] = useState(formatSteps(preset.learning_steps_json))
+  const [relearningSteps, setRelearningSteps] = useState(formatSteps(preset.relearning_steps_json))
+  const [ladder, setLadder] = useState(formatSteps(preset.interval_ladder_json))
+  const [graduatingInterval, setGraduatingInterval] = useState(String(preset.graduating_interval))
+  const [easyBonus, setEasyBonus] = useState(preset.easy_bonus == null ? '' : String(preset.easy_bonus))
+  const [maxInterval, setMaxInterval] = useState(String(preset.max_interval))
+
+  function handleSave() {
+    onSave({
+      name: name.trim() || preset.name,
+      learning_steps_json: JSON.stringify(parseSteps(learningSteps)),
+      relearning_steps_json: JSON.stringify(parseSteps(relearningSteps)),
+      interval_ladder_json: JSON.stringify(parseSteps(ladder)),
+      graduating_interval: parseFloat(graduatingInterval) || 1,
+      easy_bonus: parseFloat(easyBonus) || null,
+      max_interval: parseFloat(maxInterval) || 36500,
+    })
+  }
+
+  return (
+    <div className="preset-editor">
+      <div className="setting-row">
+        <label>Name:</label>
+        <input value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <div className="setting-row">
+        <label>Learning steps (min):</label>
+        <input value={learningSteps} onChange={(e) => setLearningSteps(e.target.value)} placeholder="1, 10" />
+      </div>
+      <div className="setting-row">
+        <label>Relearning steps (min):</label>
+        <input value={relearningSteps} onChange={(e) => setRelearningSteps(e.target.value)} placeholder="10" />
+      </div>
+      <div className="setting-row">
+        <label>Interval ladder (days):</label>
+        <input value={ladder} onChange={(e) => setLadder(e.target.value)} placeholder="0, 1, 4, 10, 25, 60, 150, 365" />
+      </div>
+      <div className="setting-row">
+        <label>Graduate after (days):</label>
+        <input type="number" value={graduatingInterval} onChange={(e) => setGraduatingInterval(e.target.value)} min={1} />
+      </div>
+      <div className="setting-row">
+        <label>Easy bonus (SM-2):</label>
+        <input
+          type="number"
+          value={easyBonus}
+          onChange={(e) => setEasyBonus(e.target.value)}
+          min={1}
+          step={0.05}
+          placeholder="global"
+        />
+      </div>
+      <div className="setting-row">
+        <label>Max interval (days):</label>
+        <input type="number" value={maxInterval} onChange={(e) => setMaxInterval(e.target.value)} min={1} />
+      </div>
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+        <button className="btn btn-danger" onClick={onDelete}>Delete</button>
+        <button className="btn btn-primary" onClick={handleSave}>Save Preset</button>
+      </div>
+    </div>
+  )
+}
 
 export default function SettingsView() {
   const [settings, setSettings] = useState<any>({})
+  const [presets, setPresets] = useState<DeckPreset[]>([])
+  const [sources, setSources] = useState<ContentSource[]>([])
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [timeZoneDraft, setTimeZoneDraft] = useState<string | null>(null)
+  const [vacation, setVacation] = useState<Vacation | null>(null)
+  const [vacationStart, setVacationStart] = useState('')
+  const [vacationEnd, setVacationEnd] = useState('')
 
   useEffect(() => {
     loadSettings()
+    loadPresets()
+    loadVacation()
   }, [])
 
   async function loadSettings() {
@@ -19,6 +117,27 @@ export default function SettingsView() {
     }
   }
 
+  async function loadPresets() {
+    try {
+      const [presetData, sourceData] = await Promise.all([getDeckPresets(), getSources()])
+      setPresets(presetData)
+      setSources(sourceData)
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function runPresetAction(action: () => Promise<unknown>, message: string) {
+    try {
+      await action()
+      setSuccess(message)
+      setTimeout(() => setSuccess(''), 2000)
+      await loadPresets()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
   async function saveSetting(key: string, value: any) {
     try {
       await updateSetting(key, value)
@@ -30,6 +149,63 @@ export default function SettingsView() {
     }
   }
 
+  async function loadVacation() {
+    try {
+      setVacation(await getVacation())
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function handleStartVacation() {
+    const today = studyDayKey(new Date(), getDayConfig(settings))
+    const start = vacationStart || today
+    const end = vacationEnd || addStudyDays(start, 6)
+    try {
+      const moved = await startVacation(start, end)
+      setSuccess(`Vacation planned. ${moved} cards pushed back.`)
+      setTimeout(() => setSuccess(''), 3000)
+      setVacationStart('')
+      setVacationEnd('')
+      await loadVacation()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function handleEndVacation() {
+    try {
+      const moved = await endVacation()
+      setSuccess(`Vacation ended. ${moved} cards moved back.`)
+      setTimeout(() => setSuccess(''), 3000)
+      await loadVacation()
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function saveSourceRetention(source: ContentSource, text: string) {
+    const pct = parseInt(text)
+    const value = Number.isNaN(pct) ? null : Math.min(Math.max(pct, 70), 99) / 100
+    if (value === source.desired_retention) return
+    await runPresetAction(() => setSourceRetention(source.id, value), 'Subject retention saved.')
+  }
+
+  async function saveTimeZone() {
+    if (timeZoneDraft === null) return
+    const value = timeZoneDraft.trim()
+    if (value && !isValidTimeZone(value)) {
+      setError(`Unknown timezone "${value}". Use an IANA name like Europe/London.`)
+      return
+    }
+    setError('')
+    setTimeZoneDraft(null)
+    await saveSetting('timezone', value || null)
+  }
+
+  // What a subject without its own target aims for: the retention setting only drives FSRS
+  const defaultRetention = settings.scheduler_algorithm === 'fsrs' ? settings.desired_retention ?? 0.9 : 0.9
+
   return (
     <div className="settings-view">
       <h1>Settings</h1>
@@ -59,6 +235,223 @@ export default function SettingsView() {
             max={1000}
           />
         </div>
+        <div className="setting-row">
+          <label>Review order:</label>
+          <select
+            value={settings.review_order ?? 'due'}
+            onChange={(e) => saveSetting('review_order', e.target.value)}
+          >
+            <option value="due">Oldest due first</option>
+            <option value="overdue_ratio">Most overdue for their interval first</option>
+            <option value="random">Random</option>
+            <option value="interleave">Interleave topics</option>
+          </select>
+        </div>
+        <div className="setting-row">
+          <label>Bury new siblings:</label>
+          <select
+            value={(settings.bury_new_siblings ?? true) ? 'on' : 'off'}
+            onChange={(e) => saveSetting('bury_new_siblings', e.target.value === 'on')}
+          >
+            <option value="on">On — one new card per topic per day</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+        <div className="setting-row">
+          <label>Bury review siblings:</label>
+          <select
+            value={(settings.bury_review_siblings ?? false) ? 'on' : 'off'}
+            onChange={(e) => saveSetting('bury_review_siblings', e.target.value === 'on')}
+          >
+            <option value="on">On — one review per topic per day</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+        <div className="setting-row">
+          <label>Leech threshold (lapses):</label>
+          <input
+            type="number"
+            value={settings.leech_threshold ?? 8}
+            onChange={(e) => saveSetting('leech_threshold', parseInt(e.target.value) || 8)}
+            min={2}
+            max={30}
+          />
+        </div>
+        <div className="setting-row">
+          <label>When a card becomes a leech:</label>
+          <select
+            value={settings.leech_action ?? 'tag'}
+            onChange={(e) => saveSetting('leech_action', e.target.value)}
+          >
+            <option value="tag">Tag it</option>
+            <option value="suspend">Tag and suspend it</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="card setting-group">
+        <h3>Day &amp; Timezone</h3>
+        <p className="setting-hint">
+          Daily limits, burying and "today" in your stats follow this timezone. Reviews before the rollover hour
+          count toward the previous day.
+        </p>
+        <div className="setting-row">
+          <label>Timezone:</label>
+          <input
+            type="text"
+            value={timeZoneDraft ?? settings.timezone ?? ''}
+            placeholder={`This device (${deviceTimeZone()})`}
+            onChange={(e) => setTimeZoneDraft(e.target.value)}
+            onBlur={saveTimeZone}
+            onKeyDown={(e) => e.key === 'Enter' && saveTimeZone()}
+          />
+        </div>
+        <div className="setting-row">
+          <label>Next day starts at (hour):</label>
+          <input
+            type="number"
+            value={settings.day_rollover_hour ?? 0}
+            onChange={(e) => saveSetting('day_rollover_hour', Math.min(Math.max(parseInt(e.target.value) || 0, 0), 23))}
+            min={0}
+            max={23}
+          />
+        </div>
+      </div>
+
+      <div className="card setting-group">
+        <h3>Vacation</h3>
+        {vacation ? (
+          <>
+            <p className="setting-hint">
+              Reviews are paused from <strong>{vacation.start}</strong> to <strong>{vacation.end}</strong>. Ending early
+              hands back the days you haven't used.
+            </p>
+            <button className="btn btn-secondary" onClick={handleEndVacation}>
+              End Vacation
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="setting-hint">
+              Cards due from the first day away onward are pushed back by the length of the trip, so you come back to
+              a normal day's reviews.
+            </p>
+            <div className="setting-row">
+              <label>First day away:</label>
+              <input type="date" value={vacationStart} onChange={(e) => setVacationStart(e.target.value)} />
+            </div>
+            <div className="setting-row">
+              <label>Last day away:</label>
+              <input type="date" value={vacationEnd} onChange={(e) => setVacationEnd(e.target.value)} />
+            </div>
+            <button className="btn btn-primary" onClick={handleStartVacation}>
+              Pause Reviews
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="card setting-group">
+        <h3>Scheduler</h3>
+        <div className="setting-row">
+          <label>Algorithm:</label>
+          <select
+            value={settings.scheduler_algorithm ?? 'fixed'}
+            onChange={(e) => saveSetting('scheduler_algorithm', e.target.value)}
+          >
+            <option value="fixed">Fixed steps (1, 4, 10, 25... days)</option>
+            <option value="sm2">SM-2 (ease-based, adjusts per card)</option>
+            <option value="fsrs">FSRS (adapts to each card)</option>
+          </select>
+        </div>
+        {settings.scheduler_algorithm === 'fsrs' && (
+          <div className="setting-row">
+            <label>Target retention (%):</label>
+            <input
+              type="number"
+              value={Math.round((settings.desired_retention ?? 0.9) * 100)}
+              onChange={(e) => saveSetting('desired_retention', (parseInt(e.target.value) || 90) / 100)}
+              min={70}
+              max={99}
+            />
+          </div>
+        )}
+      </div>
+
+      {sources.length > 0 && (
+        <div className="card setting-group">
+          <h3>Subject Retention</h3>
+          <p className="setting-hint">
+            Aim higher for exam-critical subjects and lower for nice-to-know ones. FSRS schedules for the target
+            directly; the fixed and SM-2 schedulers stretch or shrink review intervals toward it, starting from 90%.
+            Leave blank to use the global target.
+          </p>
+          {sources.map((source) => (
+            <div key={source.id} className="setting-row">
+              <label title={source.filename}>{source.filename}</label>
+              <input
+                key={`${source.id}-${source.desired_retention}`}
+                type="number"
+                defaultValue={source.desired_retention != null ? Math.round(source.desired_retention * 100) : ''}
+                placeholder={`Default (${Math.round(defaultRetention * 100)}%)`}
+                onBlur={(e) => saveSourceRetention(source, e.target.value)}
+                min={70}
+                max={99}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="card setting-group">
+        <h3>Optimize Scheduler</h3>
+        <ParameterOptimizer key={settings.scheduler_algorithm} settings={settings} onSaved={loadSettings} />
+      </div>
+
+      <div className="card setting-group">
+        <h3>Deck Presets</h3>
+        <p className="setting-hint">
+          Presets control learning steps and interval limits for the subjects they are assigned to.
+          Subjects without a preset use the defaults. A preset's settings override the global and optimized
+          ones; leave the easy bonus empty to keep the global (or optimized) SM-2 value.
+        </p>
+        {presets.map((preset) => (
+          <PresetEditor
+            key={preset.id}
+            preset={preset}
+            onSave={(updates) => runPresetAction(() => updateDeckPreset(preset.id, updates), 'Preset saved.')}
+            onDelete={() => runPresetAction(() => deleteDeckPreset(preset.id), 'Preset deleted.')}
+          />
+        ))}
+        <button
+          className="btn btn-secondary"
+          onClick={() => runPresetAction(() => createDeckPreset(`Preset ${presets.length + 1}`), 'Preset created.')}
+        >
+          + Add Preset
+        </button>
+
+        {sources.length > 0 && presets.length > 0 && (
+          <>
+            <h3 style={{ marginTop: '20px' }}>Subject Presets</h3>
+            {sources.map((source) => (
+              <div key={source.id} className="setting-row">
+                <label title={source.filename}>{source.filename}</label>
+                <select
+                  value={source.preset_id ?? ''}
+                  onChange={(e) => runPresetAction(
+                    () => setSourcePreset(source.id, e.target.value ? Number(e.target.value) : null),
+                    'Subject preset updated.',
+                  )}
+                >
+                  <option value="">Default</option>
+                  {presets.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </>
+        )}
       </div>
     </div>
   )
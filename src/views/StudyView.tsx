@@ -1,9 +1,33 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { startStudySession, createStudySession, gradeCard, endStudySession, getSourcesSummary, getTopicStats, checkAnswer, getCardsByTopic, updateCard, mergeCards, getImageUrl } from '../api/client'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { getHint, gradesAsEarlyReview, saveClozeCard, saveReversibleCard, startStudySession, startCustomSession, startExamSession, createStudySession, resumeStudySession, saveSessionProgress, gradeCard, undoLastGrade, endStudySession, getSourcesSummary, getTopicStats, checkAnswer, getCardsByTopic, updateCard, mergeCards, getImageUrl, getSchedulerOptions } from '../api/client'
 import TutorSidebar from '../components/TutorSidebar'
-import type { Card } from '../types'
+import SessionFilterBuilder from '../components/SessionFilterBuilder'
+import ExamSetup from '../components/ExamSetup'
+import ExamRunner from '../components/ExamRunner'
+import ClozeText from '../components/ClozeText'
+import { previewIntervals } from '../lib/scheduler'
+import { clozeAnswer, clozePrompt } from '../lib/cloze'
+import { choiceQuestion, joinSelection, optionLetter, shuffleOptions } from '../lib/mcq'
+import { MAX_HINT_LEVEL, capSuggestedGrade } from '../lib/hints'
+import type { HintLevel } from '../lib/hints'
+import type { SchedulerOverrides } from '../lib/scheduler'
+import type { DiffSegment } from '../lib/answer-evaluator'
+import type { Card, ExamConfig, ExamSession, ResumedSession, SessionFilter, StudyMode } from '../types'
+
+// Where the card stands: its real interval once in review (whatever the
+// scheduler or preset), otherwise its state
+function scheduleLabel(card: Card): string {
+  if (card.card_state === 'review') return `Interval ${Math.max(Math.round(card.interval_days), 1)}d`
+  return card.card_state === 'new' ? 'New' : card.card_state === 'learning' ? 'Learning' : 'Relearning'
+}
 
-const INTERVAL_LABELS = ['Day 0', 'Day 1', 'Day 4', 'Day 10', 'Day 25', 'Day 60', 'Day 150', 'Day 365'];
+const MODE_LABELS: Record<StudyMode, string> = {
+  standard: 'Due cards',
+  review_ahead: 'Review ahead',
+  preview: 'Preview / cram',
+  custom: 'Custom',
+  exam: 'Exam',
+};
 
 interface SourceSummary {
   source_id: number;
@@ -27,6 +51,13 @@ interface CheckResult {
   correctness: 'correct' | 'partial' | 'incorrect';
   feedback: string;
   suggested_grade: number;
+  diff?: DiffSegment[]; // set when the answer was compared locally
+}
+
+const DIFF_TITLES: Record<DiffSegment['kind'], string> = {
+  match: '',
+  missing: 'Missing from your answer',
+  extra: 'Not in the expected answer',
 }
 
 const IMAGE_MARKER_RE = /\[IMAGE:([\w._-]+)\]/g
@@ -71,6 +102,14 @@ function renderTextWithImages(text: string, sourceId?: number): React.ReactNode
   return <>{parts}</>
 }
 
+// Queue as it was just before the last grade, for undo
+interface UndoSnapshot {
+  cards: Card[]
+  pending: Card[]
+  index: number
+  grade: number
+}
+
 interface StudyViewProps {
   autoStart?: boolean
   onAutoStartConsumed?: () => void
@@ -96,12 +135,32 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
   const [error, setError] = useState('')
   const [cardStartTime, setCardStartTime] = useState(0)
   const [picking, setPicking] = useState(true)
+  // Scheduler options per source_id (0 = no source known), for the grade button previews
+  const [schedulerOptions, setSchedulerOptions] = useState<Record<number, SchedulerOverrides>>({})
+  // Learning/relearning cards graded this session, waiting for their step to elapse
+  const [pending, setPending] = useState<Card[]>([])
+  const [waitingUntil, setWaitingUntil] = useState<number | null>(null)
+  const [clock, setClock] = useState(Date.now())
+  // Sessions on a single topic keep its cards even when they get buried for later sessions
+  const [topicScoped, setTopicScoped] = useState(false)
+  const [undoSnapshot, setUndoSnapshot] = useState<UndoSnapshot | null>(null)
+  // Session type picked on the picker screen, and the one the running session was started with
+  const [studyMode, setStudyMode] = useState<StudyMode>('standard')
+  const [aheadDays, setAheadDays] = useState(3)
+  const [sessionMode, setSessionMode] = useState<StudyMode>('standard')
+  const [exam, setExam] = useState<ExamSession | null>(null)
+  const advanceTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Set from a grade until the next card shows, so a double press can't grade twice
+  const gradingRef = useRef(false)
+  const [grading, setGrading] = useState(false)
 
   // Answer input state
   const [userAnswer, setUserAnswer] = useState('')
   const [isChecking, setIsChecking] = useState(false)
   const [checkResult, setCheckResult] = useState<CheckResult | null>(null)
-  const [selectedMcqOption, setSelectedMcqOption] = useState<string | null>(null)
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([])
+  const [hints, setHints] = useState<string[]>([]) // revealed so far, weakest first
+  const [hintLoading, setHintLoading] = useState(false)
   const [scheduleFeedback, setScheduleFeedback] = useState('')
 
   // Edit & context panel state
@@ -122,13 +181,48 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     loadSources()
   }, [])
 
+  const currentSourceId = cards[currentIndex]?.source_id ?? 0
+  useEffect(() => {
+    if (!sessionActive || schedulerOptions[currentSourceId]) return
+    getSchedulerOptions(currentSourceId || undefined)
+      .then((opts) => setSchedulerOptions((prev) => ({ ...prev, [currentSourceId]: opts })))
+      .catch(() => {})
+  }, [sessionActive, currentSourceId])
+
+  // Tick while only pending learning cards remain, and bring the next one back once it is due
+  useEffect(() => {
+    if (waitingUntil === null) return
+    const timer = setInterval(() => {
+      const now = Date.now()
+      setClock(now)
+      if (now >= waitingUntil) advance(cards, pending, currentIndex)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [waitingUntil, cards, pending, currentIndex])
+
   useEffect(() => {
     if (autoStart) {
       onAutoStartConsumed?.()
-      startSession(undefined, undefined, true)
+      startSession(undefined, undefined, true, 'standard')
+    } else {
+      resumeStudySession()
+        .then((session) => session && resumeSession(session))
+        .catch((e) => setError(e.message))
     }
   }, [autoStart])
 
+  // Keep the queue saved on the session row so a reload can resume it. While
+  // waiting on learning cards the current card has already been graded.
+  useEffect(() => {
+    if (!sessionActive) return
+    saveSessionProgress({
+      card_ids: cards.map((c) => c.id),
+      pending_ids: pending.map((c) => c.id),
+      index: waitingUntil === null ? currentIndex : currentIndex + 1,
+      topic_scoped: topicScoped,
+    }).catch(() => {})
+  }, [sessionActive, cards, pending, currentIndex, waitingUntil, topicScoped])
+
   async function loadSources() {
     try {
       const data = await getSourcesSummary()
@@ -186,28 +280,21 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
         allCards = await getCardsByTopic(topicId)
         setPickerTopicCards((prev) => ({ ...prev, [topicId]: allCards! }))
       }
-      // Find the topic title from topicStats
+      // Find the topic title and source from topicStats
       let topicTitle = 'Unknown Topic'
-      for (const stats of Object.values(topicStatsList)) {
+      let sourceId: number | undefined
+      for (const [sid, stats] of Object.entries(topicStatsList)) {
         const found = stats.find((t) => t.topic_id === topicId)
-        if (found) { topicTitle = found.topic_title; break }
+        if (found) { topicTitle = found.topic_title; sourceId = Number(sid); break }
       }
-      // Add topic_title to cards for display
-      const enriched = allCards.map((c) => ({ ...c, topic_title: topicTitle }))
+      // Add topic_title and source_id to cards for display and scheduling previews
+      const enriched = allCards.map((c) => ({ ...c, topic_title: topicTitle, source_id: sourceId }))
       const startIdx = enriched.findIndex((c) => c.id === card.id)
       // Reorder so selected card is first
       const reordered = startIdx > 0
         ? [...enriched.slice(startIdx), ...enriched.slice(0, startIdx)]
         : enriched
-      setCards(reordered)
-      setCurrentIndex(0)
-      resetCardState()
-      setSessionActive(true)
-      setSessionComplete(false)
-      setPicking(false)
-      setCardsStudied(0)
-      setCardsCorrect(0)
-      setCardStartTime(Date.now())
+      beginSession(reordered, 'standard', true)
     } catch (e: any) {
       setError(e.message)
     }
@@ -216,44 +303,147 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
   // Alias for topic stats lookup
   const topicStatsList = topicStats
 
-  async function startSession(sourceId?: number, topicId?: number, dueOnly?: boolean) {
+  async function startSession(sourceId?: number, topicId?: number, dueOnly?: boolean, mode: StudyMode = studyMode) {
     setError('')
     try {
-      const session = await startStudySession(sourceId, topicId, dueOnly)
-      setCards(session.cards || [])
-      setCurrentIndex(0)
-      resetCardState()
-      setSessionActive(true)
-      setSessionComplete(false)
-      setPicking(false)
-      setCardsStudied(0)
-      setCardsCorrect(0)
-      setCardStartTime(Date.now())
+      const session = await startStudySession(sourceId, topicId, dueOnly, mode, aheadDays)
+      if (mode !== 'standard' && session.cards.length === 0) {
+        setError(mode === 'review_ahead'
+          ? `Nothing is due in the next ${aheadDays} day${aheadDays === 1 ? '' : 's'}.`
+          : 'No cards to preview here.')
+        return
+      }
+      beginSession(session.cards || [], mode, !!topicId)
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function startCustom(filter: SessionFilter) {
+    setError('')
+    try {
+      const session = await startCustomSession(filter)
+      if (session.cards.length === 0) {
+        setError('No cards match this filter.')
+        return
+      }
+      beginSession(session.cards, 'custom', !!filter.topic_id)
+    } catch (e: any) {
+      setError(e.message)
+    }
+  }
+
+  async function startExam(config: ExamConfig) {
+    setError('')
+    try {
+      setExam(await startExamSession(config))
     } catch (e: any) {
       setError(e.message)
     }
   }
 
+  function beginSession(sessionCards: Card[], mode: StudyMode, scoped: boolean) {
+    setCards(sessionCards)
+    setSessionMode(mode)
+    setTopicScoped(scoped)
+    setCurrentIndex(0)
+    resetCardState()
+    setSessionActive(true)
+    setSessionComplete(false)
+    setPicking(false)
+    setCardsStudied(0)
+    setCardsCorrect(0)
+    setSchedulerOptions({})
+    setPending([])
+    setWaitingUntil(null)
+    setUndoSnapshot(null)
+    setCardStartTime(Date.now())
+  }
+
+  // Restore a session left unfinished by a reload
+  function resumeSession(session: ResumedSession) {
+    beginSession(session.cards, session.mode, session.topic_scoped)
+    setCardsStudied(session.cards_studied)
+    setCardsCorrect(session.cards_correct)
+    setPending(session.pending)
+    if (session.index < session.cards.length) {
+      setCurrentIndex(session.index)
+    } else if (session.cards.length > 0 && session.pending.length > 0) {
+      advance(session.cards, session.pending, session.cards.length - 1)
+    } else {
+      finishSession()
+    }
+  }
+
   function resetCardState() {
     setShowAnswer(false)
     setUserAnswer('')
     setCheckResult(null)
-    setSelectedMcqOption(null)
+    setSelectedOptions([])
+    setHints([])
+    setHintLoading(false)
     setScheduleFeedback('')
     setIsChecking(false)
+    gradingRef.current = false
+    setGrading(false)
+  }
+
+  // Move to the next card, first slotting in any pending learning cards whose
+  // step has elapsed. With nothing left but cards still in a step, wait for
+  // the earliest one instead of ending the session.
+  function advance(queue: Card[], waiting: Card[], index: number, now: number = Date.now()) {
+    const dueAt = (c: Card) => new Date(c.due_date!).getTime()
+    const ready = waiting.filter((c) => dueAt(c) <= now).sort((a, b) => dueAt(a) - dueAt(b))
+    const stillWaiting = waiting.filter((c) => dueAt(c) > now)
+    const nextQueue = [...queue.slice(0, index + 1), ...ready, ...queue.slice(index + 1)]
+
+    setCards(nextQueue)
+    setPending(stillWaiting)
+    resetCardState()
+
+    if (index + 1 < nextQueue.length) {
+      setWaitingUntil(null)
+      setCurrentIndex(index + 1)
+      setCardStartTime(Date.now())
+    } else if (stillWaiting.length > 0) {
+      setClock(Date.now())
+      setWaitingUntil(Math.min(...stillWaiting.map(dueAt)))
+    } else {
+      finishSession()
+    }
+  }
+
+  function finishSession() {
+    setWaitingUntil(null)
+    setPending([])
+    setUndoSnapshot(null)
+    setSessionComplete(true)
+    setSessionActive(false)
+    endStudySession()
   }
 
   const handleGrade = useCallback(async (grade: number) => {
     const card = cards[currentIndex]
-    if (!card) return
+    if (!card || gradingRef.current) return
+    gradingRef.current = true
+    setGrading(true)
 
     const timeTaken = Date.now() - cardStartTime
 
     try {
-      const result = await gradeCard(card.id, grade, timeTaken)
+      const result = await gradeCard(card.id, grade, timeTaken, hints.length)
+      setUndoSnapshot({ cards, pending, index: currentIndex, grade })
       setCardsStudied((prev) => prev + 1)
       if (grade >= 2) setCardsCorrect((prev) => prev + 1)
 
+      // Preview grades change nothing; a missed card comes round again at the end
+      if (result.preview) {
+        setScheduleFeedback('Preview — schedule unchanged')
+        const queue = grade === 0 ? [...cards, card] : cards
+        advanceTimer.current = setTimeout(() => advance(queue, pending, currentIndex), 800)
+        return
+      }
+
       // Show schedule feedback briefly
       if (result?.due_date) {
         const due = new Date(result.due_date)
@@ -262,23 +452,62 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
         const label = diffDays <= 0 ? 'later today' : diffDays === 1 ? 'tomorrow' : `in ${diffDays} days`
         setScheduleFeedback(`Next review: ${label}`)
       }
+      if (result.leech === 'suspend') {
+        setScheduleFeedback('Leech — this card keeps lapsing and has been suspended. Rewrite it from the Library.')
+      } else if (result.leech === 'tag') {
+        setScheduleFeedback('Leech — this card keeps lapsing. Consider rewriting it from the Library.')
+      }
 
-      // Advance after brief delay to show feedback
-      setTimeout(() => {
-        if (currentIndex + 1 < cards.length) {
-          setCurrentIndex((prev) => prev + 1)
-          resetCardState()
-          setCardStartTime(Date.now())
-        } else {
-          setSessionComplete(true)
-          setSessionActive(false)
-          endStudySession()
+      // Cards still in a learning step come back later in this session
+      let waiting = pending
+      if (result.leech !== 'suspend' && (result.new_state === 'learning' || result.new_state === 'relearning')) {
+        const requeued: Card = {
+          ...card,
+          card_state: result.new_state,
+          interval_days: result.new_interval,
+          ease_factor: result.new_ease,
+          step_index: result.new_step_index,
+          stability: result.new_stability,
+          difficulty: result.new_difficulty,
+          due_date: result.due_date,
+          last_reviewed_at: result.reviewed_at,
         }
-      }, 800)
+        waiting = [...pending, requeued]
+      }
+
+      // Buried siblings drop out of the rest of this session too
+      const buried = new Set(topicScoped ? [] : result.buried_ids)
+      const queue = cards.filter((c, i) => i <= currentIndex || !buried.has(c.id))
+      waiting = waiting.filter((c) => !buried.has(c.id))
+
+      // Advance after brief delay to show feedback
+      advanceTimer.current = setTimeout(() => advance(queue, waiting, currentIndex), 800)
+    } catch (e: any) {
+      setError(e.message)
+      gradingRef.current = false
+      setGrading(false)
+    }
+  }, [cards, currentIndex, cardStartTime, pending, topicScoped, hints])
+
+  // Reverse the last grade and put that card back in front of the student
+  async function handleUndo() {
+    if (!undoSnapshot) return
+    if (advanceTimer.current) clearTimeout(advanceTimer.current)
+    try {
+      await undoLastGrade()
+      setCards(undoSnapshot.cards)
+      setPending(undoSnapshot.pending)
+      setCurrentIndex(undoSnapshot.index)
+      setCardsStudied((prev) => Math.max(prev - 1, 0))
+      if (undoSnapshot.grade >= 2) setCardsCorrect((prev) => Math.max(prev - 1, 0))
+      setWaitingUntil(null)
+      setUndoSnapshot(null)
+      resetCardState()
+      setCardStartTime(Date.now())
     } catch (e: any) {
       setError(e.message)
     }
-  }, [cards, currentIndex, cardStartTime])
+  }
 
   async function handleCheckAnswer() {
     const card = cards[currentIndex]
@@ -287,7 +516,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     setIsChecking(true)
     try {
       const result = await checkAnswer(card.id, userAnswer)
-      setCheckResult(result as CheckResult)
+      setCheckResult(capSuggestedGrade(result as CheckResult, hints.length))
       setShowAnswer(true)
     } catch (e: any) {
       setError(e.message)
@@ -298,14 +527,34 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     }
   }
 
-  async function handleMcqSelect(option: string) {
+  // Reveal the next, stronger hint
+  async function handleHint() {
     const card = cards[currentIndex]
-    if (!card || selectedMcqOption) return // already selected
+    if (!card || hintLoading || hints.length >= MAX_HINT_LEVEL) return
 
-    setSelectedMcqOption(option)
+    setHintLoading(true)
+    try {
+      const hint = await getHint(card.id, (hints.length + 1) as HintLevel)
+      setHints((prev) => [...prev, hint])
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setHintLoading(false)
+    }
+  }
+
+  function toggleOption(option: string) {
+    setSelectedOptions((prev) => prev.includes(option) ? prev.filter((o) => o !== option) : [...prev, option])
+  }
+
+  async function handleChoiceSubmit(selection: string[]) {
+    const card = cards[currentIndex]
+    if (!card || showAnswer || isChecking || selection.length === 0) return // already answered
+
+    setSelectedOptions(selection)
     setIsChecking(true)
     try {
-      const result = await checkAnswer(card.id, option)
+      const result = await checkAnswer(card.id, joinSelection(selection))
       setCheckResult(result as CheckResult)
       setShowAnswer(true)
     } catch (e: any) {
@@ -331,22 +580,33 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     if (!card) return
     setEditSaving(true)
     try {
-      await updateCard(card.id, {
-        question_text: editQuestion,
-        answer_text: editAnswer,
-        explanation: editExplanation || null,
-      })
-      // Update local card state
-      setCards((prev) => {
-        const updated = [...prev]
-        updated[currentIndex] = {
-          ...updated[currentIndex],
+      // Editing a cloze or reversible card edits its note, and with it every sibling card
+      const isCloze = card.question_type === 'cloze' && card.note_id !== null
+      if (isCloze) {
+        await saveClozeCard(card.id, editQuestion, editExplanation || null, card.difficulty_tier)
+      } else if (card.note_id !== null) {
+        await saveReversibleCard(card.id, editQuestion, editAnswer, editExplanation || null, card.question_type, card.difficulty_tier)
+      } else {
+        await updateCard(card.id, {
           question_text: editQuestion,
           answer_text: editAnswer,
           explanation: editExplanation || null,
+        })
+      }
+      // Update local card state, including any requeued copies
+      const edit = (c: Card): Card => {
+        if (card.note_id === null ? c.id !== card.id : c.note_id !== card.note_id) return c
+        // The other card of a reversible note asks the same thing the other way round
+        const flipped = c.is_reverse !== card.is_reverse
+        return {
+          ...c,
+          question_text: flipped ? editAnswer : editQuestion,
+          answer_text: isCloze ? clozeAnswer(editQuestion, c.cloze_index ?? 0) : flipped ? editQuestion : editAnswer,
+          explanation: editExplanation || null,
         }
-        return updated
-      })
+      }
+      setCards((prev) => prev.map(edit))
+      setPending((prev) => prev.map(edit))
       setShowEditModal(false)
     } catch (e: any) {
       setError(e.message)
@@ -399,6 +659,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
       }
       // Remove merged-away cards from the session queue
       setCards((prev) => prev.filter((c) => !selectedForMerge.includes(c.id)))
+      setPending((prev) => prev.filter((c) => !selectedForMerge.includes(c.id)))
       setSelectedForMerge([])
     } catch (e: any) {
       setError(e.message)
@@ -407,6 +668,13 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     }
   }
 
+  // A choice question's options in a fresh order each time its card comes up
+  const shownCard = cards[currentIndex]
+  const optionOrder = useMemo(() => {
+    const choice = shownCard ? choiceQuestion(shownCard) : null
+    return choice ? shuffleOptions(choice) : []
+  }, [currentIndex, shownCard?.id, shownCard?.options_json, shownCard?.correct_options_json])
+
   // Keyboard shortcuts
   useEffect(() => {
     function handleKey(e: KeyboardEvent) {
@@ -414,6 +682,13 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
       if (e.target instanceof HTMLInputElement) return
       if (!sessionActive) return
 
+      if (e.key === 'z' && (e.ctrlKey || e.metaKey) && undoSnapshot) {
+        e.preventDefault()
+        handleUndo()
+        return
+      }
+      if (waitingUntil !== null) return
+
       if (e.code === 'Space' && !showAnswer && !checkResult) {
         e.preventDefault()
         setShowAnswer(true)
@@ -426,7 +701,12 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     }
     window.addEventListener('keydown', handleKey)
     return () => window.removeEventListener('keydown', handleKey)
-  }, [showAnswer, sessionActive, handleGrade, checkResult])
+  }, [showAnswer, sessionActive, handleGrade, checkResult, waitingUntil, undoSnapshot])
+
+  // --- Exam (runs in its own screen until it is marked) ---
+  if (exam) {
+    return <ExamRunner exam={exam} onExit={() => { setExam(null); loadSources() }} />
+  }
 
   // --- Topic picker screen ---
   if (picking) {
@@ -447,118 +727,171 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
               Choose a subject to study, or study everything at once.
             </p>
 
-            <button
-              className="start-button"
-              style={{ marginBottom: '16px' }}
-              onClick={() => startSession(undefined)}
-            >
-              Study All Subjects
-            </button>
+            <div className="study-mode-picker">
+              {(Object.keys(MODE_LABELS) as StudyMode[]).map((m) => (
+                <button
+                  key={m}
+                  className={`btn ${studyMode === m ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => setStudyMode(m)}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+              {studyMode === 'review_ahead' && (
+                <label>
+                  due in the next
+                  <input
+                    type="number"
+                    value={aheadDays}
+                    onChange={(e) => setAheadDays(Math.max(parseInt(e.target.value) || 1, 1))}
+                    min={1}
+                    max={30}
+                  />
+                  days
+                </label>
+              )}
+            </div>
+            {studyMode === 'review_ahead' && (
+              <p className="study-mode-hint">
+                Study cards before they're due. Intervals only grow by the time that has actually passed.
+              </p>
+            )}
+            {studyMode === 'preview' && (
+              <p className="study-mode-hint">
+                Look through any cards, new ones first. Grades are logged but no card's schedule changes.
+              </p>
+            )}
+            {studyMode === 'exam' && (
+              <p className="study-mode-hint">
+                A timed mock test across the chosen subjects. No tutor and no answers until you submit, then a scored report.
+              </p>
+            )}
 
-            <h3 style={{ marginBottom: '12px', marginTop: '8px' }}>Or pick a subject or topic:</h3>
-            <div className="source-list">
-              {sources.filter((s) => s.card_count > 0).map((source) => (
-                <div key={source.source_id}>
-                  <div className="card source-item">
-                    <div className="source-info" style={{ cursor: 'pointer' }} onClick={() => toggleSourceExpand(source.source_id)}>
-                      <div className="source-name">
-                        <span style={{ marginRight: '6px', fontSize: '12px' }}>
-                          {expandedSource === source.source_id ? '▼' : '▶'}
-                        </span>
-                        {source.filename}
-                      </div>
-                      <div className="source-status">
-                        {source.card_count} cards &middot;{' '}
-                        {source.due_count > 0 && <strong>{source.due_count} due</strong>}
-                        {source.due_count === 0 && `${source.new_count} new`}
-                        {source.learning_count > 0 && ` · ${source.learning_count} learning`}
-                      </div>
-                    </div>
-                    <button
-                      className="btn btn-primary"
-                      onClick={() => startSession(source.source_id)}
-                      disabled={source.due_count === 0 && source.new_count === 0 && source.learning_count === 0}
-                    >
-                      Study All
-                    </button>
-                  </div>
-
-                  {/* Expanded topic list */}
-                  {expandedSource === source.source_id && (
-                    <div className="topic-list-expand">
-                      {loadingTopics === source.source_id && (
-                        <div style={{ padding: '12px 16px', color: '#7a7a92', fontSize: '13px' }}>Loading topics...</div>
-                      )}
-                      {topicStats[source.source_id]?.map((topic) => (
-                        <div key={topic.topic_id}>
-                          <div className="topic-item">
-                            <div
-                              className="topic-info"
-                              style={{ cursor: 'pointer' }}
-                              onClick={() => toggleTopicCards(topic.topic_id)}
-                            >
-                              <div className="topic-name">
-                                <span style={{ marginRight: '6px', fontSize: '10px' }}>
-                                  {expandedTopic === topic.topic_id ? '▼' : '▶'}
-                                </span>
-                                {topic.topic_title}
-                              </div>
-                              <div className="topic-stats-line">
-                                {topic.card_count} cards
-                                {topic.due_count > 0 && <> · <strong>{topic.due_count} due</strong></>}
-                                {topic.due_count === 0 && topic.new_count > 0 && <> · {topic.new_count} new</>}
-                                {topic.learning_count > 0 && <> · {topic.learning_count} learning</>}
-                              </div>
-                            </div>
-                            <button
-                              className="btn btn-secondary"
-                              onClick={() => startSession(undefined, topic.topic_id)}
-                              disabled={topic.due_count === 0 && topic.new_count === 0 && topic.learning_count === 0}
-                              style={{ fontSize: '12px', padding: '6px 12px' }}
-                            >
-                              Study Topic
-                            </button>
+            {studyMode === 'custom' ? (
+              <SessionFilterBuilder sources={sources.filter((s) => s.card_count > 0)} onStart={startCustom} />
+            ) : studyMode === 'exam' ? (
+              <ExamSetup sources={sources.filter((s) => s.card_count > 0)} onStart={startExam} />
+            ) : (
+              <>
+                <button
+                  className="start-button"
+                  style={{ marginBottom: '16px' }}
+                  onClick={() => startSession(undefined)}
+                >
+                  Study All Subjects
+                </button>
+
+                <h3 style={{ marginBottom: '12px', marginTop: '8px' }}>Or pick a subject or topic:</h3>
+                <div className="source-list">
+                  {sources.filter((s) => s.card_count > 0).map((source) => (
+                    <div key={source.source_id}>
+                      <div className="card source-item">
+                        <div className="source-info" style={{ cursor: 'pointer' }} onClick={() => toggleSourceExpand(source.source_id)}>
+                          <div className="source-name">
+                            <span style={{ marginRight: '6px', fontSize: '12px' }}>
+                              {expandedSource === source.source_id ? '▼' : '▶'}
+                            </span>
+                            {source.filename}
+                          </div>
+                          <div className="source-status">
+                            {source.card_count} cards &middot;{' '}
+                            {source.due_count > 0 && <strong>{source.due_count} due</strong>}
+                            {source.due_count === 0 && `${source.new_count} new`}
+                            {source.learning_count > 0 && ` · ${source.learning_count} learning`}
                           </div>
+                        </div>
+                        <button
+                          className="btn btn-primary"
+                          onClick={() => startSession(source.source_id)}
+                          disabled={studyMode === 'standard'
+                            ? source.due_count === 0 && source.new_count === 0 && source.learning_count === 0
+                            : source.card_count === 0}
+                        >
+                          Study All
+                        </button>
+                      </div>
 
-                          {/* Expanded card list for this topic */}
-                          {expandedTopic === topic.topic_id && (
-                            <div className="topic-cards-expand">
-                              {loadingTopicCards === topic.topic_id && (
-                                <div style={{ padding: '8px 16px', color: '#7a7a92', fontSize: '12px' }}>Loading cards...</div>
-                              )}
-                              {pickerTopicCards[topic.topic_id]?.map((card) => (
+                      {/* Expanded topic list */}
+                      {expandedSource === source.source_id && (
+                        <div className="topic-list-expand">
+                          {loadingTopics === source.source_id && (
+                            <div style={{ padding: '12px 16px', color: '#7a7a92', fontSize: '13px' }}>Loading topics...</div>
+                          )}
+                          {topicStats[source.source_id]?.map((topic) => (
+                            <div key={topic.topic_id}>
+                              <div className="topic-item">
                                 <div
-                                  key={card.id}
-                                  className="topic-card-item"
-                                  onClick={() => startSessionWithCard(card, topic.topic_id)}
+                                  className="topic-info"
+                                  style={{ cursor: 'pointer' }}
+                                  onClick={() => toggleTopicCards(topic.topic_id)}
                                 >
-                                  <div className="topic-card-question">
-                                    {card.question_text.length > 80
-                                      ? card.question_text.slice(0, 80) + '...'
-                                      : card.question_text}
+                                  <div className="topic-name">
+                                    <span style={{ marginRight: '6px', fontSize: '10px' }}>
+                                      {expandedTopic === topic.topic_id ? '▼' : '▶'}
+                                    </span>
+                                    {topic.topic_title}
                                   </div>
-                                  <div className="topic-card-meta">
-                                    <span className="badge badge-type" style={{ fontSize: '10px' }}>{card.question_type}</span>
-                                    <span className={`badge badge-${card.difficulty_tier}`} style={{ fontSize: '10px' }}>{card.difficulty_tier}</span>
-                                    <span style={{ fontSize: '11px', color: '#7a7a92' }}>{card.card_state}</span>
+                                  <div className="topic-stats-line">
+                                    {topic.card_count} cards
+                                    {topic.due_count > 0 && <> · <strong>{topic.due_count} due</strong></>}
+                                    {topic.due_count === 0 && topic.new_count > 0 && <> · {topic.new_count} new</>}
+                                    {topic.learning_count > 0 && <> · {topic.learning_count} learning</>}
                                   </div>
                                 </div>
-                              ))}
-                              {pickerTopicCards[topic.topic_id]?.length === 0 && (
-                                <div style={{ padding: '8px 16px', color: '#7a7a92', fontSize: '12px' }}>No cards in this topic.</div>
+                                <button
+                                  className="btn btn-secondary"
+                                  onClick={() => startSession(undefined, topic.topic_id)}
+                                  disabled={studyMode === 'standard'
+                                    ? topic.due_count === 0 && topic.new_count === 0 && topic.learning_count === 0
+                                    : topic.card_count === 0}
+                                  style={{ fontSize: '12px', padding: '6px 12px' }}
+                                >
+                                  Study Topic
+                                </button>
+                              </div>
+
+                              {/* Expanded card list for this topic */}
+                              {expandedTopic === topic.topic_id && (
+                                <div className="topic-cards-expand">
+                                  {loadingTopicCards === topic.topic_id && (
+                                    <div style={{ padding: '8px 16px', color: '#7a7a92', fontSize: '12px' }}>Loading cards...</div>
+                                  )}
+                                  {pickerTopicCards[topic.topic_id]?.map((card) => (
+                                    <div
+                                      key={card.id}
+                                      className="topic-card-item"
+                                      onClick={() => startSessionWithCard(card, topic.topic_id)}
+                                    >
+                                      <div className="topic-card-question">
+                                        {(() => {
+                                          const text = card.cloze_index ? clozePrompt(card.question_text, card.cloze_index) : card.question_text
+                                          return text.length > 80 ? text.slice(0, 80) + '...' : text
+                                        })()}
+                                      </div>
+                                      <div className="topic-card-meta">
+                                        <span className="badge badge-type" style={{ fontSize: '10px' }}>{card.question_type}</span>
+                                        <span className={`badge badge-${card.difficulty_tier}`} style={{ fontSize: '10px' }}>{card.difficulty_tier}</span>
+                                        <span style={{ fontSize: '11px', color: '#7a7a92' }}>{card.card_state}</span>
+                                      </div>
+                                    </div>
+                                  ))}
+                                  {pickerTopicCards[topic.topic_id]?.length === 0 && (
+                                    <div style={{ padding: '8px 16px', color: '#7a7a92', fontSize: '12px' }}>No cards in this topic.</div>
+                                  )}
+                                </div>
                               )}
                             </div>
+                          ))}
+                          {topicStats[source.source_id]?.length === 0 && (
+                            <div style={{ padding: '12px 16px', color: '#7a7a92', fontSize: '13px' }}>No topics found.</div>
                           )}
                         </div>
-                      ))}
-                      {topicStats[source.source_id]?.length === 0 && (
-                        <div style={{ padding: '12px 16px', color: '#7a7a92', fontSize: '13px' }}>No topics found.</div>
                       )}
                     </div>
-                  )}
+                  ))}
                 </div>
-              ))}
-            </div>
+              </>
+            )}
           </>
         )}
       </div>
@@ -610,20 +943,50 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
     )
   }
 
+  // --- Waiting for learning cards ---
+  if (waitingUntil !== null) {
+    const secondsLeft = Math.max(Math.ceil((waitingUntil - clock) / 1000), 0)
+    const countdown = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`
+    return (
+      <div className="study-view">
+        <div className="card session-complete">
+          <h2>Next card in {countdown}</h2>
+          <p style={{ color: '#9898b0' }}>
+            {pending.length} learning card{pending.length === 1 ? '' : 's'} still to come back this session.
+          </p>
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'center', marginTop: '24px' }}>
+            <button className="btn btn-primary" onClick={() => advance(cards, pending, currentIndex, waitingUntil)}>
+              Study Now
+            </button>
+            {undoSnapshot && (
+              <button className="btn btn-secondary" onClick={handleUndo}>
+                Undo Last Grade
+              </button>
+            )}
+            <button className="btn btn-secondary" onClick={finishSession}>
+              End Session
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // --- Active study ---
   const currentCard = cards[currentIndex]
   if (!currentCard) return null
 
-  const options = currentCard.options_json ? JSON.parse(currentCard.options_json) : null
-  const isMcq = currentCard.question_type === 'mcq' && options
+  const choice = choiceQuestion(currentCard)
 
-  // Show the interval progression step labels
-  const step = currentCard.step_index
+  // Show where each grade would schedule the card next
+  const [againLabel, hardLabel, goodLabel, easyLabel] = sessionMode === 'preview'
+    ? ['no change', 'no change', 'no change', 'no change']
+    : previewIntervals(currentCard, schedulerOptions[currentSourceId], new Date(), gradesAsEarlyReview(sessionMode))
   const intervals = {
-    again: 'Day 0 (10m)',
-    hard: INTERVAL_LABELS[Math.min(step, INTERVAL_LABELS.length - 1)] + ' (repeat)',
-    good: INTERVAL_LABELS[Math.min(step + 1, INTERVAL_LABELS.length - 1)],
-    easy: INTERVAL_LABELS[Math.min(step + 2, INTERVAL_LABELS.length - 1)],
+    again: againLabel,
+    hard: hardLabel,
+    good: goodLabel,
+    easy: easyLabel,
   }
 
   const content = (
@@ -631,8 +994,15 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
       <div className="study-header">
         <span className="study-progress">
           Card {currentIndex + 1} / {cards.length}
+          {pending.length > 0 && ` · ${pending.length} learning`}
+          {sessionMode !== 'standard' && <span className="badge badge-mode">{MODE_LABELS[sessionMode]}</span>}
         </span>
         <span className="study-topic">
+          {undoSnapshot && (
+            <button className="btn btn-icon" title="Undo last grade (Ctrl+Z)" onClick={handleUndo} style={{ marginRight: '8px' }}>
+              ↶
+            </button>
+          )}
           {currentCard.topic_title || 'Unknown Topic'}
         </span>
       </div>
@@ -646,7 +1016,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
             {currentCard.difficulty_tier}
           </span>
           <span className="badge" style={{ background: '#222240', color: '#9898b0' }}>
-            Step {step}/{INTERVAL_LABELS.length - 1}
+            {scheduleLabel(currentCard)}
           </span>
           <span style={{ flex: 1 }} />
           <button className="btn btn-icon" title="Edit this card" onClick={openEditModal}>
@@ -657,41 +1027,67 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
           </button>
         </div>
 
-        <div className="question-text">{renderTextWithImages(currentCard.question_text, currentCard.source_id)}</div>
+        <div className="question-text">
+          {currentCard.question_type === 'cloze' && currentCard.cloze_index
+            ? <ClozeText text={currentCard.question_text} index={currentCard.cloze_index} revealed={showAnswer} />
+            : renderTextWithImages(currentCard.question_text, currentCard.source_id)}
+        </div>
 
-        {/* MCQ: clickable option buttons */}
-        {isMcq && (
+        {/* Choice questions: clickable option buttons, lettered in their shuffled order */}
+        {choice && (
           <div style={{ marginTop: '12px' }}>
-            {options.map((opt: string, i: number) => {
-              const letter = String.fromCharCode(65 + i) // A, B, C, D
-              const isSelected = selectedMcqOption === opt
-              const isCorrect = checkResult?.correctness === 'correct'
+            {choice.multiple && !showAnswer && (
+              <div className="mcq-instruction">Choose all that apply</div>
+            )}
+            {optionOrder.map((opt, i) => {
+              const isSelected = selectedOptions.includes(opt)
+              const isCorrect = choice.correct.includes(opt)
               let className = 'mcq-option-btn'
-              if (selectedMcqOption) {
+              if (showAnswer) {
                 className += ' disabled'
-                if (isSelected && isCorrect) className += ' selected-correct'
-                else if (isSelected && !isCorrect) className += ' selected-incorrect'
-                // Highlight the correct answer if user got it wrong
-                if (!isCorrect && currentCard.answer_text.toLowerCase().startsWith(letter.toLowerCase())) {
-                  className += ' correct-highlight'
-                }
+                if (isSelected) className += isCorrect ? ' selected-correct' : ' selected-incorrect'
+                // Highlight the correct options the user didn't pick
+                else if (isCorrect) className += ' correct-highlight'
+              } else if (isSelected) {
+                className += ' selected'
               }
               return (
                 <button
-                  key={i}
+                  key={opt}
                   className={className}
-                  onClick={() => !selectedMcqOption && handleMcqSelect(opt)}
-                  disabled={!!selectedMcqOption}
+                  onClick={() => choice.multiple ? toggleOption(opt) : handleChoiceSubmit([opt])}
+                  disabled={showAnswer || isChecking}
                 >
-                  {opt}
+                  {optionLetter(i)}) {opt}
                 </button>
               )
             })}
+            {choice.multiple && !showAnswer && (
+              <button
+                className="btn btn-primary"
+                onClick={() => handleChoiceSubmit(selectedOptions)}
+                disabled={isChecking || selectedOptions.length === 0}
+                style={{ width: '100%', marginTop: '6px' }}
+              >
+                {isChecking ? 'Checking...' : 'Check Answer'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Hints revealed so far */}
+        {hints.length > 0 && (
+          <div className="hint-list">
+            {hints.map((hint, i) => (
+              <div key={i} className="hint">
+                <strong>Hint {i + 1}:</strong> {hint}
+              </div>
+            ))}
           </div>
         )}
 
-        {/* Free-text answer input (non-MCQ, before answer shown) */}
-        {!isMcq && !showAnswer && (
+        {/* Free-text answer input (non-choice, before answer shown) */}
+        {!choice && !showAnswer && (
           <div className="answer-input-area">
             <textarea
               ref={textareaRef}
@@ -715,6 +1111,14 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
               >
                 {isChecking ? 'Checking...' : 'Check Answer (Enter)'}
               </button>
+              <button
+                className="btn btn-secondary"
+                onClick={handleHint}
+                disabled={hintLoading || hints.length >= MAX_HINT_LEVEL}
+                title="Each hint is stronger than the last, and lowers the suggested grade"
+              >
+                {hintLoading ? 'Thinking...' : hints.length === 0 ? 'Hint' : hints.length < MAX_HINT_LEVEL ? 'Stronger Hint' : 'No More Hints'}
+              </button>
             </div>
           </div>
         )}
@@ -730,6 +1134,13 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
             {checkResult.feedback && (
               <div style={{ marginTop: '4px' }}>{checkResult.feedback}</div>
             )}
+            {checkResult.diff?.some((seg) => seg.kind !== 'match') && (
+              <div className="answer-diff">
+                {checkResult.diff.map((seg, i) => (
+                  <span key={i} className={`diff-${seg.kind}`} title={DIFF_TITLES[seg.kind]}>{seg.text}</span>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -748,7 +1159,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
       </div>
 
       {/* Before answer: show skip option for free-text */}
-      {!showAnswer && !isMcq && (
+      {!showAnswer && !choice && (
         <div style={{ textAlign: 'center', marginTop: '8px' }}>
           <button
             className="btn btn-secondary"
@@ -789,6 +1200,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
             <button
               className="continue-btn"
               onClick={() => handleGrade(autoGrade)}
+              disabled={grading}
             >
               Continue &rarr; {autoGradeLabel}
             </button>
@@ -810,6 +1222,7 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
                   key={btn.grade}
                   className={`btn ${btn.cls}`}
                   onClick={() => handleGrade(btn.grade)}
+                  disabled={grading}
                 >
                   {btn.label}
                   <span className="grade-label">{btn.interval} ({btn.grade + 1})</span>
@@ -820,8 +1233,8 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
         )
       })()}
 
-      {/* Tutor toggle before answer for non-MCQ */}
-      {!showAnswer && !isMcq && (
+      {/* Tutor toggle before answer for non-choice questions */}
+      {!showAnswer && !choice && (
         <button
           className="btn btn-secondary tutor-toggle"
           onClick={() => setShowTutor(!showTutor)}
@@ -840,18 +1253,31 @@ export default function StudyView({ autoStart, onAutoStartConsumed }: StudyViewP
           <button className="close-btn" onClick={() => setShowEditModal(false)}>x</button>
         </div>
         <div className="modal-body">
-          <label>Question</label>
-          <textarea
-            value={editQuestion}
-            onChange={(e) => setEditQuestion(e.target.value)}
-            rows={4}
-          />
-          <label>Answer</label>
-          <textarea
-            value={editAnswer}
-            onChange={(e) => setEditAnswer(e.target.value)}
-            rows={4}
-          />
+          {currentCard.question_type === 'cloze' && currentCard.note_id !== null ? (
+            <>
+              <label>Cloze text — mark deletions as {'{{c1::answer}}'} or {'{{c1::answer::hint}}'}; changes apply to every card from this note</label>
+              <textarea
+                value={editQuestion}
+                onChange={(e) => setEditQuestion(e.target.value)}
+                rows={5}
+              />
+            </>
+          ) : (
+            <>
+              <label>Question</label>
+              <textarea
+                value={editQuestion}
+                onChange={(e) => setEditQuestion(e.target.value)}
+                rows={4}
+              />
+              <label>Answer</label>
+              <textarea
+                value={editAnswer}
+                onChange={(e) => setEditAnswer(e.target.value)}
+                rows={4}
+              />
+            </>
+          )}
           <label>Explanation (optional)</label>
           <textarea
             value={editExplanation}
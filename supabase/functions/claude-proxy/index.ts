@@ -86,8 +86,11 @@ TOPIC: {topic_title}
 Generate a mix of these question types:
 - recall: Core principles, definitions, and key frameworks from the notes
 - conceptual: Understanding relationships, cause-effect chains, and comparisons
-- mcq: Multiple choice testing conceptual understanding with 4 options (A-D)
+- mcq: Multiple choice testing conceptual understanding, 3-5 options with exactly one correct
+- multi_select: "Choose all that apply" with 4-6 options, one or more of them correct
+- true_false: A statement from the notes (or a subtly wrong version of one) to judge true or false
 - open_ended: Scenario-based application questions
+- cloze: A key sentence from the notes with its important terms deleted, marked {{c1::term}} or {{c1::term::hint}}. Number the deletions c1, c2, ... — each number becomes a separate card.
 
 Difficulty levels:
 - foundational: Core definitions, key principles, fundamental "what" and "why"
@@ -102,18 +105,20 @@ RESPOND WITH THIS EXACT JSON STRUCTURE:
 {
   "questions": [
     {
-      "question_type": "recall|conceptual|mcq|open_ended",
+      "question_type": "recall|conceptual|mcq|multi_select|true_false|open_ended|cloze",
       "difficulty_tier": "foundational|intermediate|advanced",
-      "question": "The question text",
+      "question": "The question text (for cloze, the sentence with its {{c1::...}} deletions; for true_false, the statement)",
       "answer": "The correct answer. Source: 'quote from source material'",
-      "options": ["A) ...", "B) ...", "C) ...", "D) ..."],
+      "options": ["...", "...", "...", "..."],
+      "correct": ["the exact text of each correct option"],
       "explanation": "Brief explanation of WHY this is the answer"
     }
   ]
 }
 
-For non-MCQ questions, set "options" to null.
-Generate roughly: 1 recall, 3 conceptual, 2 MCQ, 1 open_ended questions.
+Write options WITHOUT letter labels — they are shuffled for every review. Copy each correct option's text exactly into "correct".
+For true_false, set "options" to null and "correct" to ["True"] or ["False"]. For other non-choice questions, set "options" and "correct" to null. For cloze, set "answer" to the deleted terms.
+Generate roughly: 1 recall, 2 conceptual, 1 MCQ, 1 multi_select or true_false, 1 cloze, 1 open_ended questions.
 Mix difficulty levels: 2 foundational, 3 intermediate, 2 advanced.`
 
 const EVAL_SYSTEM_PROMPT = `You are evaluating a student's answer to a study question.
@@ -139,6 +144,38 @@ Grade mapping:
 - 2 (Good): Substantially correct, demonstrates solid understanding
 - 3 (Easy): Excellent answer, clearly mastered this concept`
 
+const HINT_SYSTEM_PROMPT = `You are giving a hint to a student who is stuck on a study question.
+
+They have already seen the first letters of the answer and a related sentence from their notes. Write ONE short clue (one sentence) that points them toward the answer.
+
+CRITICAL RULES:
+- Do NOT state the answer or any of its key words, and don't spell it out letter by letter.
+- Base the clue ONLY on the provided source material.
+- Prefer a nudge toward the reasoning, a contrast, or what the answer is used for.
+
+Respond with the clue only: no preamble, no quotes, no JSON.`
+
+const REWRITE_SYSTEM_PROMPT = `You are fixing a study card the student keeps getting wrong (a "leech").
+
+Leeches are usually badly written cards: too much in one question, an ambiguous prompt, an answer that lists too many things, or a question the notes don't really support.
+
+CRITICAL RULES:
+- Base the card ONLY on the provided source material. Do NOT add outside knowledge.
+- Test ONE idea. Make the question unambiguous and the answer short enough to recall in one go.
+- Answers must first state the correct answer, then include a "Source:" reference quoting the relevant part of the notes.
+- For mcq or multi_select, give the options without letter labels and copy the correct option(s) exactly into "correct"; for true_false, set "correct" to ["True"] or ["False"].
+
+You MUST respond with valid JSON only:
+{
+  "question_type": "recall|conceptual|mcq|multi_select|true_false|open_ended",
+  "difficulty_tier": "foundational|intermediate|advanced",
+  "question": "The question text",
+  "answer": "The correct answer. Source: 'quote from source material'",
+  "options": null,
+  "correct": null,
+  "explanation": "Brief explanation of WHY this is the answer"
+}`
+
 // ── Helpers ──
 
 async function callClaude(
@@ -257,6 +294,41 @@ Deno.serve(async (req: Request) => {
         })
       }
 
+      case 'give-hint': {
+        const { question_text, correct_answer, content } = body
+        const userPrompt = `Question: ${question_text}\n\nCorrect answer (do not reveal): ${correct_answer}\n\nSOURCE MATERIAL:\n---\n${content}\n---`
+
+        const response = await callClaude(HINT_SYSTEM_PROMPT, userPrompt, 'claude-haiku-4-5-20251001', 256)
+        return new Response(JSON.stringify({ hint: response.trim() }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
+      case 'rewrite-card': {
+        const { mode, topic_title, content, question_text, answer_text, explanation } = body
+        const instruction = mode === 'regenerate'
+          ? 'Write a NEW card that tests the same underlying idea from a different angle. Do not reuse the wording of the current card.'
+          : 'Rewrite the current card so it is clearer and easier to remember. Keep what it tests; fix how it asks.'
+        const userPrompt = `${instruction}
+
+CURRENT CARD:
+Question: ${question_text}
+Answer: ${answer_text}
+${explanation ? `Explanation: ${explanation}` : ''}
+
+TOPIC: ${topic_title}
+
+SOURCE MATERIAL:
+---
+${content}
+---`
+
+        const response = await callClaude(REWRITE_SYSTEM_PROMPT, userPrompt, 'claude-sonnet-4-20250514', 1024)
+        return new Response(JSON.stringify({ response }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+
       case 'extract-pdf-text': {
         const { pdf_base64 } = body
         if (!pdf_base64) {
@@ -0,0 +1,19 @@
+-- FSRS scheduler: per-card memory state
+--
+-- stability/difficulty stay NULL until a card is graded with the FSRS
+-- algorithm. last_reviewed_at is written on every grade so FSRS can work
+-- out how much time has actually elapsed since the previous review.
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS stability DOUBLE PRECISION;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS difficulty DOUBLE PRECISION;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- Backfill last_reviewed_at from existing history
+UPDATE cards c
+SET last_reviewed_at = rh.last_reviewed
+FROM (
+  SELECT card_id, MAX(reviewed_at) AS last_reviewed
+  FROM review_history
+  GROUP BY card_id
+) rh
+WHERE rh.card_id = c.id AND c.last_reviewed_at IS NULL;
@@ -0,0 +1,24 @@
+-- Deck presets: named scheduling options assignable per content source
+--
+-- Step lists are stored as JSON arrays (minutes for learning/relearning
+-- steps, days for the fixed interval ladder). Sources without a preset use
+-- the scheduler defaults.
+
+CREATE TABLE IF NOT EXISTS deck_presets (
+    id                     BIGSERIAL PRIMARY KEY,
+    name                   TEXT NOT NULL UNIQUE,
+    learning_steps_json    TEXT NOT NULL DEFAULT '[1,10]',
+    relearning_steps_json  TEXT NOT NULL DEFAULT '[10]',
+    interval_ladder_json   TEXT NOT NULL DEFAULT '[0,1,4,10,25,60,150,365]',
+    graduating_interval    DOUBLE PRECISION NOT NULL DEFAULT 1,
+    easy_bonus             DOUBLE PRECISION NOT NULL DEFAULT 1.3,
+    max_interval           DOUBLE PRECISION NOT NULL DEFAULT 36500,
+    created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE content_sources
+    ADD COLUMN IF NOT EXISTS preset_id BIGINT REFERENCES deck_presets(id) ON DELETE SET NULL;
+
+ALTER TABLE deck_presets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on deck_presets" ON deck_presets FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,47 @@
+-- Daily limits: record the state each review started from
+--
+-- previous_state lets the study queue tell new cards introduced today apart
+-- from reviews, so daily_new_card_limit and daily_review_limit can be
+-- enforced from review_history alone.
+
+ALTER TABLE review_history ADD COLUMN IF NOT EXISTS previous_state TEXT
+    CHECK(previous_state IN ('new','learning','review','relearning'));
+
+-- Backfill: a card's first review was from 'new'; later ones with a
+-- day-or-longer interval were reviews, the rest learning steps
+UPDATE review_history rh
+SET previous_state = CASE
+    WHEN rh.id = first.first_id THEN 'new'
+    WHEN rh.previous_interval >= 1 THEN 'review'
+    ELSE 'learning'
+  END
+FROM (
+  SELECT card_id, MIN(id) AS first_id
+  FROM review_history
+  GROUP BY card_id
+) first
+WHERE first.card_id = rh.card_id AND rh.previous_state IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_review_state_date ON review_history(previous_state, reviewed_at);
+
+-- get_card_stats: add review_due_count so the dashboard can cap it by the daily review limit
+CREATE OR REPLACE FUNCTION get_card_stats()
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT json_build_object(
+    'total', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended),
+    'new_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'new' AND NOT is_suspended),
+    'learning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'learning' AND NOT is_suspended),
+    'review_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended),
+    'relearning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'relearning' AND NOT is_suspended),
+    'suspended_count', (SELECT COUNT(*) FROM cards WHERE is_suspended),
+    'due_count', (SELECT COUNT(*) FROM cards WHERE card_state IN ('review','relearning') AND NOT is_suspended AND due_date <= NOW()),
+    'review_due_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended AND due_date <= NOW()),
+    'reviews_today', (SELECT COUNT(*) FROM review_history WHERE reviewed_at::date = CURRENT_DATE),
+    'correct_today', (SELECT COUNT(*) FROM review_history WHERE reviewed_at::date = CURRENT_DATE AND grade >= 2)
+  ) INTO result;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
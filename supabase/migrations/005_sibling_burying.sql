@@ -0,0 +1,6 @@
+-- Sibling burying: hide a studied card's topic siblings until the next day
+--
+-- Burying never touches due_date, so a buried card keeps its schedule and
+-- simply stays out of study queues until buried_until passes.
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS buried_until TIMESTAMPTZ;
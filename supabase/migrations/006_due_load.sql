@@ -0,0 +1,26 @@
+-- get_due_counts: review cards due per local calendar day, for load balancing
+--
+-- p_utc_offset_minutes shifts due_date into the caller's local time before
+-- bucketing (JavaScript's -Date.getTimezoneOffset()).
+
+CREATE INDEX IF NOT EXISTS idx_cards_due_date ON cards(due_date);
+
+CREATE OR REPLACE FUNCTION get_due_counts(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_utc_offset_minutes INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_object_agg(due_day, due_count), '{}'::json) INTO result FROM (
+    SELECT
+      to_char((due_date AT TIME ZONE 'UTC') + make_interval(mins => p_utc_offset_minutes), 'YYYY-MM-DD') AS due_day,
+      COUNT(*) AS due_count
+    FROM cards
+    WHERE card_state IN ('review','relearning')
+      AND NOT is_suspended
+      AND due_date >= p_from
+      AND due_date < p_to
+    GROUP BY 1
+  ) counts;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,17 @@
+-- get_grade_distribution: how often each grade is given from each card state,
+-- used to drive the workload forecast
+
+CREATE OR REPLACE FUNCTION get_grade_distribution()
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_agg(row_data), '[]'::json) INTO result FROM (
+    SELECT previous_state, grade, COUNT(*) AS review_count
+    FROM review_history
+    WHERE previous_state IS NOT NULL
+    GROUP BY previous_state, grade
+  ) row_data;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
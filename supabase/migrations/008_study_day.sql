@@ -0,0 +1,135 @@
+-- Study days: timezone- and rollover-aware "today"
+--
+-- A study day runs from p_rollover_hour in p_timezone to the same hour the
+-- next day. The RPCs below take both as parameters (defaulting to UTC
+-- midnight, the previous behaviour) instead of using the server's
+-- CURRENT_DATE. Mirrors src/lib/study-day.ts.
+
+CREATE OR REPLACE FUNCTION study_day(p_ts TIMESTAMPTZ, p_timezone TEXT, p_rollover_hour INTEGER)
+RETURNS DATE AS $$
+  SELECT ((p_ts AT TIME ZONE p_timezone) - make_interval(hours => p_rollover_hour))::date;
+$$ LANGUAGE sql STABLE;
+
+-- get_card_stats: Dashboard stats
+DROP FUNCTION IF EXISTS get_card_stats();
+CREATE OR REPLACE FUNCTION get_card_stats(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  today DATE := study_day(NOW(), p_timezone, p_rollover_hour);
+BEGIN
+  SELECT json_build_object(
+    'total', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended),
+    'new_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'new' AND NOT is_suspended),
+    'learning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'learning' AND NOT is_suspended),
+    'review_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended),
+    'relearning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'relearning' AND NOT is_suspended),
+    'suspended_count', (SELECT COUNT(*) FROM cards WHERE is_suspended),
+    'due_count', (SELECT COUNT(*) FROM cards WHERE card_state IN ('review','relearning') AND NOT is_suspended AND due_date <= NOW()),
+    'review_due_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended AND due_date <= NOW()),
+    'reviews_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today),
+    'correct_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND grade >= 2)
+  ) INTO result;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- get_reports: Full reports data
+DROP FUNCTION IF EXISTS get_reports();
+CREATE OR REPLACE FUNCTION get_reports(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  topic_stats_json JSON;
+  daily_stats_json JSON;
+  schedule_json JSON;
+  today DATE := study_day(NOW(), p_timezone, p_rollover_hour);
+BEGIN
+  -- Topic performance
+  SELECT json_agg(row_data) INTO topic_stats_json FROM (
+    SELECT
+      t.id AS topic_id,
+      t.title AS topic_title,
+      cs.filename AS source_filename,
+      COUNT(rh.id) AS total_reviews,
+      COUNT(rh.id) FILTER (WHERE rh.grade >= 2) AS correct_count,
+      CASE WHEN COUNT(rh.id) > 0
+        THEN ROUND((COUNT(rh.id) FILTER (WHERE rh.grade >= 2) * 100.0 / COUNT(rh.id))::numeric)
+        ELSE 0
+      END AS accuracy_pct,
+      CASE WHEN COUNT(rh.id) > 0
+        THEN ROUND((AVG(rh.time_taken_ms) FILTER (WHERE rh.time_taken_ms IS NOT NULL) / 1000.0)::numeric, 1)
+        ELSE 0
+      END AS avg_time_sec
+    FROM topics t
+    JOIN content_sources cs ON cs.id = t.source_id
+    LEFT JOIN cards c ON c.topic_id = t.id
+    LEFT JOIN review_history rh ON rh.card_id = c.id
+    GROUP BY t.id, t.title, cs.filename
+    ORDER BY cs.filename, t.title
+  ) row_data;
+
+  -- Daily stats (last 30 study days)
+  SELECT json_agg(row_data) INTO daily_stats_json FROM (
+    SELECT
+      study_day(reviewed_at, p_timezone, p_rollover_hour) AS review_date,
+      COUNT(*) AS review_count,
+      COUNT(*) FILTER (WHERE grade >= 2) AS correct_count
+    FROM review_history
+    WHERE reviewed_at >= NOW() - INTERVAL '32 days'
+      AND study_day(reviewed_at, p_timezone, p_rollover_hour) > today - 30
+    GROUP BY 1
+    ORDER BY 1
+  ) row_data;
+
+  -- Schedule overview
+  SELECT json_build_object(
+    'due_today', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended AND card_state IN ('review','relearning') AND study_day(due_date, p_timezone, p_rollover_hour) <= today),
+    'due_this_week', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended AND card_state IN ('review','relearning') AND study_day(due_date, p_timezone, p_rollover_hour) <= today + 7),
+    'due_this_month', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended AND card_state IN ('review','relearning') AND study_day(due_date, p_timezone, p_rollover_hour) <= today + 30),
+    'due_later', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended AND card_state IN ('review','relearning') AND study_day(due_date, p_timezone, p_rollover_hour) > today + 30),
+    'new_cards', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended AND card_state = 'new')
+  ) INTO schedule_json;
+
+  SELECT json_build_object(
+    'today', today,
+    'topic_stats', COALESCE(topic_stats_json, '[]'::json),
+    'daily_stats', COALESCE(daily_stats_json, '[]'::json),
+    'schedule_overview', schedule_json
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- get_due_counts: bucket by study day instead of a fixed UTC offset
+DROP FUNCTION IF EXISTS get_due_counts(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER);
+CREATE OR REPLACE FUNCTION get_due_counts(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_rollover_hour INTEGER DEFAULT 0
+)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_object_agg(due_day, due_count), '{}'::json) INTO result FROM (
+    SELECT
+      to_char(study_day(due_date, p_timezone, p_rollover_hour), 'YYYY-MM-DD') AS due_day,
+      COUNT(*) AS due_count
+    FROM cards
+    WHERE card_state IN ('review','relearning')
+      AND NOT is_suspended
+      AND due_date >= p_from
+      AND due_date < p_to
+    GROUP BY 1
+  ) counts;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
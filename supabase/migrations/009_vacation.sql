@@ -0,0 +1,41 @@
+-- Vacation mode and backlog redistribution
+
+-- shift_due_dates: move every scheduled card due at or after p_from by
+-- p_days (negative to pull back). With p_reviewed_before set, cards reviewed
+-- since then are left alone, so ending a vacation early doesn't disturb
+-- reviews done in the meantime.
+CREATE OR REPLACE FUNCTION shift_due_dates(
+  p_from TIMESTAMPTZ,
+  p_days INTEGER,
+  p_reviewed_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  shifted INTEGER;
+BEGIN
+  UPDATE cards
+  SET due_date = due_date + make_interval(days => p_days),
+      updated_at = NOW()
+  WHERE card_state <> 'new'
+    AND due_date >= p_from
+    AND (p_reviewed_before IS NULL OR last_reviewed_at IS NULL OR last_reviewed_at < p_reviewed_before);
+  GET DIAGNOSTICS shifted = ROW_COUNT;
+  RETURN shifted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- set_due_dates: bulk reschedule from a JSON array of {id, due_date}
+CREATE OR REPLACE FUNCTION set_due_dates(p_updates JSON)
+RETURNS INTEGER AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE cards c
+  SET due_date = u.due_date,
+      updated_at = NOW()
+  FROM json_to_recordset(p_updates) AS u(id BIGINT, due_date TIMESTAMPTZ)
+  WHERE c.id = u.id;
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql;
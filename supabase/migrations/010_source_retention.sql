@@ -0,0 +1,34 @@
+-- Per-source target retention
+--
+-- NULL means the source follows the global desired_retention setting.
+
+ALTER TABLE content_sources
+    ADD COLUMN IF NOT EXISTS desired_retention DOUBLE PRECISION
+    CHECK (desired_retention IS NULL OR (desired_retention >= 0.7 AND desired_retention <= 0.99));
+
+-- get_source_retention: pass rate of scheduled reviews per source over the
+-- last p_days (learning steps excluded, Hard or better counts as recalled)
+CREATE OR REPLACE FUNCTION get_source_retention(p_days INTEGER DEFAULT 90)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_agg(row_data), '[]'::json) INTO result FROM (
+    SELECT
+      cs.id AS source_id,
+      cs.filename AS source_filename,
+      cs.desired_retention,
+      COUNT(rh.id) AS review_count,
+      COUNT(rh.id) FILTER (WHERE rh.grade >= 1) AS recalled_count
+    FROM content_sources cs
+    LEFT JOIN topics t ON t.source_id = cs.id
+    LEFT JOIN cards c ON c.topic_id = t.id
+    LEFT JOIN review_history rh ON rh.card_id = c.id
+      AND rh.previous_state = 'review'
+      AND rh.reviewed_at >= NOW() - make_interval(days => p_days)
+    GROUP BY cs.id, cs.filename, cs.desired_retention
+    ORDER BY cs.filename
+  ) row_data;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,54 @@
+-- Review-ahead and preview sessions
+--
+-- Preview grades are logged with is_preview so the history shows them, but
+-- they leave card scheduling alone and are kept out of daily limits, the
+-- forecast's grade distribution, retention stats and the optimizer.
+
+ALTER TABLE study_sessions
+    ADD COLUMN IF NOT EXISTS session_type TEXT NOT NULL DEFAULT 'standard'
+    CHECK (session_type IN ('standard','review_ahead','preview'));
+
+ALTER TABLE review_history
+    ADD COLUMN IF NOT EXISTS is_preview BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION get_grade_distribution()
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_agg(row_data), '[]'::json) INTO result FROM (
+    SELECT previous_state, grade, COUNT(*) AS review_count
+    FROM review_history
+    WHERE previous_state IS NOT NULL
+      AND NOT is_preview
+    GROUP BY previous_state, grade
+  ) row_data;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_source_retention(p_days INTEGER DEFAULT 90)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT COALESCE(json_agg(row_data), '[]'::json) INTO result FROM (
+    SELECT
+      cs.id AS source_id,
+      cs.filename AS source_filename,
+      cs.desired_retention,
+      COUNT(rh.id) AS review_count,
+      COUNT(rh.id) FILTER (WHERE rh.grade >= 1) AS recalled_count
+    FROM content_sources cs
+    LEFT JOIN topics t ON t.source_id = cs.id
+    LEFT JOIN cards c ON c.topic_id = t.id
+    LEFT JOIN review_history rh ON rh.card_id = c.id
+      AND rh.previous_state = 'review'
+      AND NOT rh.is_preview
+      AND rh.reviewed_at >= NOW() - make_interval(days => p_days)
+    GROUP BY cs.id, cs.filename, cs.desired_retention
+    ORDER BY cs.filename
+  ) row_data;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,22 @@
+-- Custom filtered study sessions
+--
+-- A custom session's filter is stored on the session itself: the source/topic
+-- scope in topic_filter and the full filter in settings_json, both as JSON.
+-- Filters worth reusing are saved as session presets.
+
+ALTER TABLE study_sessions DROP CONSTRAINT IF EXISTS study_sessions_session_type_check;
+ALTER TABLE study_sessions ADD CONSTRAINT study_sessions_session_type_check
+    CHECK (session_type IN ('standard','review_ahead','preview','custom'));
+
+CREATE TABLE IF NOT EXISTS session_presets (
+    id           BIGSERIAL PRIMARY KEY,
+    name         TEXT NOT NULL UNIQUE,
+    filter_json  TEXT NOT NULL DEFAULT '{}',
+    created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_grade_date ON review_history(grade, reviewed_at);
+
+ALTER TABLE session_presets ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on session_presets" ON session_presets FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,112 @@
+-- get_study_queue: build a standard session's queue in one round trip
+--
+-- Order of the queue: learning/relearning cards due now (never capped), then
+-- due reviews up to what's left of the daily review limit, then new cards up
+-- to what's left of the daily new limit. Source and topic filters are real
+-- joins, so cards from other sources can't slip through.
+--
+-- p_review_order picks which reviews make the cut and in what order:
+--   due           oldest due date first (default)
+--   overdue_ratio most overdue relative to the interval first
+--   random        shuffled
+--   interleave    one card per topic in turn
+-- New cards follow the same order for random/interleave, otherwise oldest first.
+
+CREATE OR REPLACE FUNCTION get_study_queue(
+  p_source_id BIGINT DEFAULT NULL,
+  p_topic_id BIGINT DEFAULT NULL,
+  p_due_only BOOLEAN DEFAULT FALSE,
+  p_review_order TEXT DEFAULT 'due',
+  p_timezone TEXT DEFAULT 'UTC',
+  p_rollover_hour INTEGER DEFAULT 0
+)
+RETURNS JSON AS $$
+DECLARE
+  day_start TIMESTAMPTZ;
+  new_limit INTEGER;
+  review_limit INTEGER;
+  new_done INTEGER;
+  reviews_done INTEGER;
+  result JSON;
+BEGIN
+  -- When the current study day began: its date at the rollover hour, in the user's timezone
+  day_start := (study_day(NOW(), p_timezone, p_rollover_hour) + make_interval(hours => p_rollover_hour))
+               AT TIME ZONE p_timezone;
+
+  -- Settings values are stored as JSON text
+  SELECT (value::jsonb #>> '{}')::numeric::integer INTO new_limit
+  FROM user_settings WHERE key = 'daily_new_card_limit';
+  SELECT (value::jsonb #>> '{}')::numeric::integer INTO review_limit
+  FROM user_settings WHERE key = 'daily_review_limit';
+
+  SELECT
+    COUNT(*) FILTER (WHERE previous_state = 'new'),
+    COUNT(*) FILTER (WHERE previous_state = 'review')
+  INTO new_done, reviews_done
+  FROM review_history
+  WHERE reviewed_at >= day_start AND NOT is_preview;
+
+  WITH scoped AS (
+    SELECT c.*, t.title AS topic_title, t.source_id, cs.filename AS source_filename
+    FROM cards c
+    JOIN topics t ON t.id = c.topic_id
+    JOIN content_sources cs ON cs.id = t.source_id
+    WHERE NOT c.is_suspended
+      AND (p_topic_id IS NULL OR c.topic_id = p_topic_id)
+      AND (p_source_id IS NULL OR t.source_id = p_source_id)
+  ),
+  learning AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY due_date) AS pos
+    FROM scoped
+    WHERE card_state IN ('learning','relearning')
+      AND (card_state = 'relearning' OR NOT p_due_only)
+      AND due_date <= NOW()
+  ),
+  review_pool AS (
+    SELECT id, topic_id, due_date, interval_days,
+           ROW_NUMBER() OVER (PARTITION BY topic_id ORDER BY due_date) AS topic_rank
+    FROM scoped
+    WHERE card_state = 'review'
+      AND due_date <= NOW()
+      AND (buried_until IS NULL OR buried_until <= NOW())
+  ),
+  reviews AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY
+      CASE p_review_order
+        WHEN 'overdue_ratio' THEN -(EXTRACT(EPOCH FROM NOW() - due_date) / 86400 / GREATEST(interval_days, 1))::double precision
+        WHEN 'random' THEN random()
+        WHEN 'interleave' THEN topic_rank::double precision
+        ELSE EXTRACT(EPOCH FROM due_date)::double precision
+      END, topic_id, due_date) AS pos
+    FROM review_pool
+  ),
+  new_pool AS (
+    SELECT id, topic_id, ROW_NUMBER() OVER (PARTITION BY topic_id ORDER BY id) AS topic_rank
+    FROM scoped
+    WHERE card_state = 'new'
+      AND NOT p_due_only
+      AND (buried_until IS NULL OR buried_until <= NOW())
+  ),
+  new_cards AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY
+      CASE p_review_order
+        WHEN 'random' THEN random()
+        WHEN 'interleave' THEN topic_rank::double precision
+        ELSE 0
+      END, topic_id, id) AS pos
+    FROM new_pool
+  ),
+  queue AS (
+    SELECT id, 1 AS bucket, pos FROM learning
+    UNION ALL
+    SELECT id, 2, pos FROM reviews WHERE pos <= GREATEST(COALESCE(review_limit, 200) - reviews_done, 0)
+    UNION ALL
+    SELECT id, 3, pos FROM new_cards WHERE pos <= GREATEST(COALESCE(new_limit, 20) - new_done, 0)
+  )
+  SELECT COALESCE(json_agg(to_jsonb(s) ORDER BY q.bucket, q.pos), '[]'::json) INTO result
+  FROM queue q
+  JOIN scoped s ON s.id = q.id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
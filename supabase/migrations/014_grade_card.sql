@@ -0,0 +1,138 @@
+-- grade_card / undo_grade: every write a grade makes, in one transaction
+--
+-- The client still runs the scheduler and passes its result in p_schedule
+-- (NULL for preview grades, which only log). Session counters are kept in
+-- study_sessions rather than in the client.
+
+CREATE OR REPLACE FUNCTION grade_card(
+  p_card_id BIGINT,
+  p_session_id BIGINT,
+  p_grade INTEGER,
+  p_time_taken_ms INTEGER,
+  p_reviewed_at TIMESTAMPTZ,
+  p_schedule JSON,                        -- {card_state, ease_factor, interval_days, step_index, due_date, stability?, difficulty?}
+  p_tags TEXT DEFAULT NULL,               -- new tags when this grade flags a leech
+  p_suspend BOOLEAN DEFAULT FALSE,        -- suspend as a leech
+  p_bury_until TIMESTAMPTZ DEFAULT NULL,  -- bury siblings in these states until then
+  p_bury_states TEXT[] DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  prev cards%ROWTYPE;
+  updated cards%ROWTYPE;
+  history_id BIGINT;
+  buried JSON := '[]'::json;
+BEGIN
+  SELECT * INTO prev FROM cards WHERE id = p_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found';
+  END IF;
+
+  IF p_schedule IS NULL THEN
+    updated := prev;
+  ELSE
+    UPDATE cards SET
+      card_state = p_schedule->>'card_state',
+      ease_factor = (p_schedule->>'ease_factor')::double precision,
+      interval_days = (p_schedule->>'interval_days')::double precision,
+      step_index = (p_schedule->>'step_index')::integer,
+      due_date = (p_schedule->>'due_date')::timestamptz,
+      stability = COALESCE((p_schedule->>'stability')::double precision, stability),
+      difficulty = COALESCE((p_schedule->>'difficulty')::double precision, difficulty),
+      last_reviewed_at = p_reviewed_at,
+      review_count = review_count + 1,
+      lapse_count = lapse_count + CASE WHEN p_grade = 0 AND prev.card_state = 'review' THEN 1 ELSE 0 END,
+      tags = COALESCE(p_tags, tags),
+      is_suspended = is_suspended OR p_suspend,
+      updated_at = p_reviewed_at
+    WHERE id = p_card_id
+    RETURNING * INTO updated;
+
+    IF p_bury_until IS NOT NULL AND p_bury_states IS NOT NULL THEN
+      WITH siblings AS (
+        SELECT id, buried_until FROM cards
+        WHERE topic_id = prev.topic_id
+          AND id <> p_card_id
+          AND card_state = ANY (p_bury_states)
+          AND NOT is_suspended
+        FOR UPDATE
+      ), buried_rows AS (
+        UPDATE cards c SET buried_until = p_bury_until
+        FROM siblings s
+        WHERE c.id = s.id
+        RETURNING s.id, s.buried_until
+      )
+      SELECT COALESCE(json_agg(json_build_object('id', id, 'buried_until', buried_until)), '[]'::json)
+      INTO buried FROM buried_rows;
+    END IF;
+  END IF;
+
+  INSERT INTO review_history (
+    card_id, session_id, grade, previous_interval, new_interval, previous_ease, new_ease,
+    previous_state, time_taken_ms, reviewed_at, is_preview
+  ) VALUES (
+    p_card_id, p_session_id, p_grade, prev.interval_days, updated.interval_days, prev.ease_factor, updated.ease_factor,
+    prev.card_state, p_time_taken_ms, p_reviewed_at, p_schedule IS NULL
+  ) RETURNING id INTO history_id;
+
+  UPDATE study_sessions SET
+    cards_studied = cards_studied + 1,
+    cards_correct = cards_correct + CASE WHEN p_grade >= 2 THEN 1 ELSE 0 END,
+    total_time_ms = total_time_ms + COALESCE(p_time_taken_ms, 0)
+  WHERE id = p_session_id;
+
+  RETURN json_build_object(
+    'card', row_to_json(updated),
+    'previous', row_to_json(prev),
+    'history_id', history_id,
+    'buried', buried
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- undo_grade: put the card back as it was (p_card, NULL for preview grades),
+-- unbury the siblings it buried, drop the review and take it out of the
+-- session totals
+CREATE OR REPLACE FUNCTION undo_grade(p_history_id BIGINT, p_card JSON, p_buried JSON DEFAULT '[]')
+RETURNS BIGINT AS $$
+DECLARE
+  h review_history%ROWTYPE;
+BEGIN
+  SELECT * INTO h FROM review_history WHERE id = p_history_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF p_card IS NOT NULL THEN
+    UPDATE cards SET
+      card_state = p_card->>'card_state',
+      ease_factor = (p_card->>'ease_factor')::double precision,
+      interval_days = (p_card->>'interval_days')::double precision,
+      step_index = (p_card->>'step_index')::integer,
+      due_date = (p_card->>'due_date')::timestamptz,
+      stability = (p_card->>'stability')::double precision,
+      difficulty = (p_card->>'difficulty')::double precision,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      review_count = (p_card->>'review_count')::integer,
+      lapse_count = (p_card->>'lapse_count')::integer,
+      tags = p_card->>'tags',
+      is_suspended = (p_card->>'is_suspended')::boolean,
+      updated_at = NOW()
+    WHERE id = h.card_id;
+  END IF;
+
+  UPDATE cards c SET buried_until = b.buried_until
+  FROM json_to_recordset(COALESCE(p_buried, '[]'::json)) AS b(id BIGINT, buried_until TIMESTAMPTZ)
+  WHERE c.id = b.id;
+
+  DELETE FROM review_history WHERE id = p_history_id;
+
+  UPDATE study_sessions SET
+    cards_studied = GREATEST(cards_studied - 1, 0),
+    cards_correct = GREATEST(cards_correct - CASE WHEN h.grade >= 2 THEN 1 ELSE 0 END, 0),
+    total_time_ms = GREATEST(total_time_ms - COALESCE(h.time_taken_ms, 0), 0)
+  WHERE id = h.session_id;
+
+  RETURN h.card_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,49 @@
+-- Session resume: the study queue is saved on the session row so a reload
+-- can pick up where it left off, and sessions nobody comes back to are
+-- marked abandoned instead of staying 'active' forever.
+--
+-- queue_json holds {card_ids, pending_ids, topic_scoped}; position is the
+-- index into card_ids of the card being studied. The counters are already
+-- kept up to date by grade_card, so an abandoned session keeps its partial
+-- stats.
+
+ALTER TABLE study_sessions ADD COLUMN IF NOT EXISTS queue_json TEXT;
+ALTER TABLE study_sessions ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE study_sessions ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ;
+
+UPDATE study_sessions SET last_activity_at = COALESCE(ended_at, started_at) WHERE last_activity_at IS NULL;
+ALTER TABLE study_sessions ALTER COLUMN last_activity_at SET DEFAULT NOW();
+ALTER TABLE study_sessions ALTER COLUMN last_activity_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_active ON study_sessions(status, last_activity_at);
+
+-- Grading counts as activity
+CREATE OR REPLACE FUNCTION touch_study_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.last_activity_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS study_sessions_touch ON study_sessions;
+CREATE TRIGGER study_sessions_touch
+  BEFORE UPDATE OF cards_studied, queue_json, position ON study_sessions
+  FOR EACH ROW EXECUTE FUNCTION touch_study_session();
+
+-- abandon_stale_sessions: close active sessions idle for p_idle_minutes or
+-- more (0 closes them all), ending them at their last activity. Returns how
+-- many were closed.
+CREATE OR REPLACE FUNCTION abandon_stale_sessions(p_idle_minutes INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  closed INTEGER;
+BEGIN
+  UPDATE study_sessions
+  SET status = 'abandoned', ended_at = last_activity_at
+  WHERE status = 'active'
+    AND last_activity_at <= NOW() - make_interval(mins => p_idle_minutes);
+  GET DIAGNOSTICS closed = ROW_COUNT;
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,27 @@
+-- Timed exam / mock test mode
+--
+-- An exam is a study session of type 'exam'. Its configuration (sources,
+-- question count, time limit, ...) is stored in settings_json; each answer
+-- and how it was marked goes in exam_answers. Exams that feed the scheduler
+-- also log their grades to review_history like any other session.
+
+ALTER TABLE study_sessions DROP CONSTRAINT IF EXISTS study_sessions_session_type_check;
+ALTER TABLE study_sessions ADD CONSTRAINT study_sessions_session_type_check
+    CHECK (session_type IN ('standard','review_ahead','preview','custom','exam'));
+
+CREATE TABLE IF NOT EXISTS exam_answers (
+    id              BIGSERIAL PRIMARY KEY,
+    session_id      BIGINT NOT NULL REFERENCES study_sessions(id) ON DELETE CASCADE,
+    card_id         BIGINT REFERENCES cards(id) ON DELETE SET NULL,
+    position        INTEGER NOT NULL,
+    user_answer     TEXT,
+    correctness     TEXT NOT NULL CHECK(correctness IN ('correct','partial','incorrect')),
+    score           DOUBLE PRECISION NOT NULL DEFAULT 0,
+    feedback        TEXT,
+    time_taken_ms   INTEGER,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_exam_answers_session ON exam_answers(session_id, position);
+
+ALTER TABLE exam_answers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on exam_answers" ON exam_answers FOR ALL USING (true) WITH CHECK (true);
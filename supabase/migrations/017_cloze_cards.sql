@@ -0,0 +1,29 @@
+-- Cloze-deletion cards
+--
+-- A cloze note is a passage with deletions marked {{c1::answer}} or
+-- {{c1::answer::hint}}. It lives in notes; each deletion number becomes its
+-- own card (cloze_index) with the note's text as question_text and that
+-- deletion's answer as answer_text, so the cards schedule independently
+-- while edits to the note update them all.
+
+ALTER TABLE cards DROP CONSTRAINT IF EXISTS cards_question_type_check;
+ALTER TABLE cards ADD CONSTRAINT cards_question_type_check
+    CHECK (question_type IN ('recall','conceptual','application','mcq','open_ended','cloze'));
+
+CREATE TABLE IF NOT EXISTS notes (
+    id              BIGSERIAL PRIMARY KEY,
+    topic_id        BIGINT NOT NULL REFERENCES topics(id) ON DELETE CASCADE,
+    note_type       TEXT NOT NULL CHECK(note_type IN ('cloze')),
+    text            TEXT NOT NULL,
+    explanation     TEXT,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_notes_topic ON notes(topic_id);
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS note_id BIGINT REFERENCES notes(id) ON DELETE CASCADE;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS cloze_index INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cards_note_cloze ON cards(note_id, cloze_index) WHERE note_id IS NOT NULL;
+
+ALTER TABLE notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all on notes" ON notes FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,15 @@
+-- Reversible cards
+--
+-- A reversible note holds a front (text) and back; it has a forward card
+-- asking front → back and a reverse card (is_reverse) asking back → front.
+-- Both share the note's topic and provenance but are scheduled independently;
+-- editing either card rewrites the note and both cards.
+
+ALTER TABLE notes DROP CONSTRAINT IF EXISTS notes_note_type_check;
+ALTER TABLE notes ADD CONSTRAINT notes_note_type_check
+    CHECK (note_type IN ('cloze','reversible'));
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS back TEXT;
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS is_reverse BOOLEAN NOT NULL DEFAULT FALSE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cards_note_direction ON cards(note_id, is_reverse)
+    WHERE note_id IS NOT NULL AND cloze_index IS NULL;
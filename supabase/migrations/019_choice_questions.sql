@@ -0,0 +1,15 @@
+-- Choice questions: multi-select and true/false
+--
+-- options_json holds the options without "A) " letters and
+-- correct_options_json the text of the correct one(s), so options can be
+-- shuffled on every review. Older MCQs keep lettered options with the correct
+-- letter at the start of answer_text; the app still reads those.
+--
+-- multi_select ("choose all that apply") has one or more correct options;
+-- true_false asks about a statement and needs no options_json.
+
+ALTER TABLE cards DROP CONSTRAINT IF EXISTS cards_question_type_check;
+ALTER TABLE cards ADD CONSTRAINT cards_question_type_check
+    CHECK (question_type IN ('recall','conceptual','application','mcq','multi_select','true_false','open_ended','cloze'));
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS correct_options_json TEXT;
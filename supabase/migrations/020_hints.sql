@@ -0,0 +1,97 @@
+-- Hints
+--
+-- review_history.hints_used counts the hints shown before a card was answered
+-- (first letters, a sentence from the notes, a written clue). grade_card gains
+-- p_hints_used to log it with the review; the old signature is dropped so the
+-- call isn't ambiguous.
+
+ALTER TABLE review_history ADD COLUMN IF NOT EXISTS hints_used INTEGER NOT NULL DEFAULT 0;
+
+DROP FUNCTION IF EXISTS grade_card(BIGINT, BIGINT, INTEGER, INTEGER, TIMESTAMPTZ, JSON, TEXT, BOOLEAN, TIMESTAMPTZ, TEXT[]);
+
+CREATE OR REPLACE FUNCTION grade_card(
+  p_card_id BIGINT,
+  p_session_id BIGINT,
+  p_grade INTEGER,
+  p_time_taken_ms INTEGER,
+  p_reviewed_at TIMESTAMPTZ,
+  p_schedule JSON,                        -- {card_state, ease_factor, interval_days, step_index, due_date, stability?, difficulty?}
+  p_tags TEXT DEFAULT NULL,               -- new tags when this grade flags a leech
+  p_suspend BOOLEAN DEFAULT FALSE,        -- suspend as a leech
+  p_bury_until TIMESTAMPTZ DEFAULT NULL,  -- bury siblings in these states until then
+  p_bury_states TEXT[] DEFAULT NULL,
+  p_hints_used INTEGER DEFAULT 0          -- hints shown before answering
+)
+RETURNS JSON AS $$
+DECLARE
+  prev cards%ROWTYPE;
+  updated cards%ROWTYPE;
+  history_id BIGINT;
+  buried JSON := '[]'::json;
+BEGIN
+  SELECT * INTO prev FROM cards WHERE id = p_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found';
+  END IF;
+
+  IF p_schedule IS NULL THEN
+    updated := prev;
+  ELSE
+    UPDATE cards SET
+      card_state = p_schedule->>'card_state',
+      ease_factor = (p_schedule->>'ease_factor')::double precision,
+      interval_days = (p_schedule->>'interval_days')::double precision,
+      step_index = (p_schedule->>'step_index')::integer,
+      due_date = (p_schedule->>'due_date')::timestamptz,
+      stability = COALESCE((p_schedule->>'stability')::double precision, stability),
+      difficulty = COALESCE((p_schedule->>'difficulty')::double precision, difficulty),
+      last_reviewed_at = p_reviewed_at,
+      review_count = review_count + 1,
+      lapse_count = lapse_count + CASE WHEN p_grade = 0 AND prev.card_state = 'review' THEN 1 ELSE 0 END,
+      tags = COALESCE(p_tags, tags),
+      is_suspended = is_suspended OR p_suspend,
+      updated_at = p_reviewed_at
+    WHERE id = p_card_id
+    RETURNING * INTO updated;
+
+    IF p_bury_until IS NOT NULL AND p_bury_states IS NOT NULL THEN
+      WITH siblings AS (
+        SELECT id, buried_until FROM cards
+        WHERE topic_id = prev.topic_id
+          AND id <> p_card_id
+          AND card_state = ANY (p_bury_states)
+          AND NOT is_suspended
+        FOR UPDATE
+      ), buried_rows AS (
+        UPDATE cards c SET buried_until = p_bury_until
+        FROM siblings s
+        WHERE c.id = s.id
+        RETURNING s.id, s.buried_until
+      )
+      SELECT COALESCE(json_agg(json_build_object('id', id, 'buried_until', buried_until)), '[]'::json)
+      INTO buried FROM buried_rows;
+    END IF;
+  END IF;
+
+  INSERT INTO review_history (
+    card_id, session_id, grade, previous_interval, new_interval, previous_ease, new_ease,
+    previous_state, time_taken_ms, reviewed_at, is_preview, hints_used
+  ) VALUES (
+    p_card_id, p_session_id, p_grade, prev.interval_days, updated.interval_days, prev.ease_factor, updated.ease_factor,
+    prev.card_state, p_time_taken_ms, p_reviewed_at, p_schedule IS NULL, COALESCE(p_hints_used, 0)
+  ) RETURNING id INTO history_id;
+
+  UPDATE study_sessions SET
+    cards_studied = cards_studied + 1,
+    cards_correct = cards_correct + CASE WHEN p_grade >= 2 THEN 1 ELSE 0 END,
+    total_time_ms = total_time_ms + COALESCE(p_time_taken_ms, 0)
+  WHERE id = p_session_id;
+
+  RETURN json_build_object(
+    'card', row_to_json(updated),
+    'previous', row_to_json(prev),
+    'history_id', history_id,
+    'buried', buried
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,93 @@
+-- Due and new counts leave out buried cards
+--
+-- get_study_queue doesn't serve a card until its buried_until has passed, so
+-- the dashboard and study picker counts skip buried cards the same way;
+-- otherwise they promise cards no session will show today.
+
+CREATE OR REPLACE FUNCTION get_card_stats(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  today DATE := study_day(NOW(), p_timezone, p_rollover_hour);
+BEGIN
+  SELECT json_build_object(
+    'total', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended),
+    'new_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'new' AND NOT is_suspended
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'learning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'learning' AND NOT is_suspended),
+    'review_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended),
+    'relearning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'relearning' AND NOT is_suspended),
+    'suspended_count', (SELECT COUNT(*) FROM cards WHERE is_suspended),
+    'due_count', (SELECT COUNT(*) FROM cards WHERE card_state IN ('review','relearning') AND NOT is_suspended AND due_date <= NOW()
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'review_due_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended AND due_date <= NOW()
+                           AND (buried_until IS NULL OR buried_until <= NOW())),
+    'reviews_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today),
+    'correct_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND grade >= 2)
+  ) INTO result;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_sources_summary()
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT json_agg(row_data) INTO result FROM (
+    SELECT
+      cs.id AS source_id,
+      cs.filename,
+      COALESCE(card_counts.card_count, 0) AS card_count,
+      COALESCE(card_counts.due_count, 0) AS due_count,
+      COALESCE(card_counts.new_count, 0) AS new_count,
+      COALESCE(card_counts.learning_count, 0) AS learning_count
+    FROM content_sources cs
+    LEFT JOIN (
+      SELECT
+        t.source_id,
+        COUNT(c.id) AS card_count,
+        COUNT(c.id) FILTER (WHERE c.card_state IN ('review','relearning') AND NOT c.is_suspended AND c.due_date <= NOW()
+                              AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS due_count,
+        COUNT(c.id) FILTER (WHERE c.card_state = 'new' AND NOT c.is_suspended
+                              AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS new_count,
+        COUNT(c.id) FILTER (WHERE c.card_state IN ('learning','relearning') AND NOT c.is_suspended) AS learning_count
+      FROM topics t
+      JOIN cards c ON c.topic_id = t.id
+      GROUP BY t.source_id
+    ) card_counts ON card_counts.source_id = cs.id
+    ORDER BY cs.import_date DESC
+  ) row_data;
+  RETURN COALESCE(result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_topic_stats(p_source_id BIGINT)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+BEGIN
+  SELECT json_agg(row_data) INTO result FROM (
+    SELECT
+      t.id AS topic_id,
+      t.title AS topic_title,
+      COUNT(c.id) AS card_count,
+      COUNT(c.id) FILTER (WHERE c.card_state IN ('review','relearning') AND NOT c.is_suspended AND c.due_date <= NOW()
+                            AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS due_count,
+      COUNT(c.id) FILTER (WHERE c.card_state = 'new' AND NOT c.is_suspended
+                            AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS new_count,
+      COUNT(c.id) FILTER (WHERE c.card_state IN ('learning','relearning') AND NOT c.is_suspended) AS learning_count
+    FROM topics t
+    LEFT JOIN cards c ON c.topic_id = t.id
+    WHERE t.source_id = p_source_id
+    GROUP BY t.id, t.title
+    ORDER BY t.sequence_order
+  ) row_data;
+  RETURN COALESCE(result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql;
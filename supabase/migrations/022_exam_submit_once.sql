@@ -0,0 +1,13 @@
+-- Exam answers are stored once per question
+--
+-- A retried submit upserts on (session_id, position) instead of adding a
+-- second set of answers. Duplicates left by earlier retries are dropped first.
+
+DELETE FROM exam_answers a
+USING exam_answers b
+WHERE a.session_id = b.session_id
+  AND a.position = b.position
+  AND a.id > b.id;
+
+DROP INDEX IF EXISTS idx_exam_answers_session;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exam_answers_session ON exam_answers(session_id, position);
@@ -0,0 +1,23 @@
+-- Running exams aren't abandoned
+--
+-- Answering exam questions doesn't touch the session row, so an exam with a
+-- long time limit could look idle to abandon_stale_sessions before its
+-- deadline. An exam only starts counting as idle once its time limit is up.
+
+CREATE OR REPLACE FUNCTION abandon_stale_sessions(p_idle_minutes INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  closed INTEGER;
+BEGIN
+  UPDATE study_sessions
+  SET status = 'abandoned', ended_at = last_activity_at
+  WHERE status = 'active'
+    AND last_activity_at <= NOW() - make_interval(mins => p_idle_minutes)
+    AND NOT (
+      session_type = 'exam'
+      AND started_at + make_interval(mins => COALESCE((settings_json::json->>'time_limit_minutes')::int, 0)) > NOW()
+    );
+  GET DIAGNOSTICS closed = ROW_COUNT;
+  RETURN closed;
+END;
+$$ LANGUAGE plpgsql;
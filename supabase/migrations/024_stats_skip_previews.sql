@@ -0,0 +1,38 @@
+-- Today's review counters skip preview grades
+--
+-- Preview grades are logged to review_history with is_preview but leave the
+-- card's schedule alone, so they aren't reviews done today: the daily quota
+-- and the study queue already leave them out, and so do the dashboard's
+-- reviews_today and correct_today.
+
+CREATE OR REPLACE FUNCTION get_card_stats(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  today DATE := study_day(NOW(), p_timezone, p_rollover_hour);
+BEGIN
+  SELECT json_build_object(
+    'total', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended),
+    'new_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'new' AND NOT is_suspended
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'learning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'learning' AND NOT is_suspended),
+    'review_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended),
+    'relearning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'relearning' AND NOT is_suspended),
+    'suspended_count', (SELECT COUNT(*) FROM cards WHERE is_suspended),
+    'due_count', (SELECT COUNT(*) FROM cards WHERE card_state IN ('review','relearning') AND NOT is_suspended AND due_date <= NOW()
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'review_due_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended AND due_date <= NOW()
+                           AND (buried_until IS NULL OR buried_until <= NOW())),
+    'reviews_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND NOT is_preview),
+    'correct_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND grade >= 2
+                        AND NOT is_preview)
+  ) INTO result;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,212 @@
+-- Reviews are due for the whole study day they fall on
+--
+-- A review's due_date is an exact time, so a card due at 3pm wasn't counted or
+-- served until 3pm, while the daily limits already run by study day. Reviews
+-- due before the next study day begins (see study_day()) now count as due
+-- today in the dashboard stats, the source and topic counts and the study
+-- queue. Relearning steps are minutes long and stay due at their due_date.
+
+CREATE OR REPLACE FUNCTION get_card_stats(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  today DATE := study_day(NOW(), p_timezone, p_rollover_hour);
+  -- When the next study day begins: reviews due before then are due today
+  day_end TIMESTAMPTZ := (today + 1 + make_interval(hours => p_rollover_hour)) AT TIME ZONE p_timezone;
+BEGIN
+  SELECT json_build_object(
+    'total', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended),
+    'new_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'new' AND NOT is_suspended
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'learning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'learning' AND NOT is_suspended),
+    'review_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended),
+    'relearning_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'relearning' AND NOT is_suspended),
+    'suspended_count', (SELECT COUNT(*) FROM cards WHERE is_suspended),
+    'due_count', (SELECT COUNT(*) FROM cards WHERE NOT is_suspended
+                    AND ((card_state = 'review' AND due_date < day_end) OR (card_state = 'relearning' AND due_date <= NOW()))
+                    AND (buried_until IS NULL OR buried_until <= NOW())),
+    'review_due_count', (SELECT COUNT(*) FROM cards WHERE card_state = 'review' AND NOT is_suspended AND due_date < day_end
+                           AND (buried_until IS NULL OR buried_until <= NOW())),
+    'reviews_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND NOT is_preview),
+    'correct_today', (SELECT COUNT(*) FROM review_history
+                      WHERE reviewed_at >= NOW() - INTERVAL '2 days'
+                        AND study_day(reviewed_at, p_timezone, p_rollover_hour) = today
+                        AND grade >= 2
+                        AND NOT is_preview)
+  ) INTO result;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS get_sources_summary();
+CREATE OR REPLACE FUNCTION get_sources_summary(p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  day_end TIMESTAMPTZ := (study_day(NOW(), p_timezone, p_rollover_hour) + 1 + make_interval(hours => p_rollover_hour))
+                         AT TIME ZONE p_timezone;
+BEGIN
+  SELECT json_agg(row_data) INTO result FROM (
+    SELECT
+      cs.id AS source_id,
+      cs.filename,
+      COALESCE(card_counts.card_count, 0) AS card_count,
+      COALESCE(card_counts.due_count, 0) AS due_count,
+      COALESCE(card_counts.new_count, 0) AS new_count,
+      COALESCE(card_counts.learning_count, 0) AS learning_count
+    FROM content_sources cs
+    LEFT JOIN (
+      SELECT
+        t.source_id,
+        COUNT(c.id) AS card_count,
+        COUNT(c.id) FILTER (WHERE NOT c.is_suspended
+                              AND ((c.card_state = 'review' AND c.due_date < day_end)
+                                   OR (c.card_state = 'relearning' AND c.due_date <= NOW()))
+                              AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS due_count,
+        COUNT(c.id) FILTER (WHERE c.card_state = 'new' AND NOT c.is_suspended
+                              AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS new_count,
+        COUNT(c.id) FILTER (WHERE c.card_state IN ('learning','relearning') AND NOT c.is_suspended) AS learning_count
+      FROM topics t
+      JOIN cards c ON c.topic_id = t.id
+      GROUP BY t.source_id
+    ) card_counts ON card_counts.source_id = cs.id
+    ORDER BY cs.import_date DESC
+  ) row_data;
+  RETURN COALESCE(result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS get_topic_stats(BIGINT);
+CREATE OR REPLACE FUNCTION get_topic_stats(p_source_id BIGINT, p_timezone TEXT DEFAULT 'UTC', p_rollover_hour INTEGER DEFAULT 0)
+RETURNS JSON AS $$
+DECLARE
+  result JSON;
+  day_end TIMESTAMPTZ := (study_day(NOW(), p_timezone, p_rollover_hour) + 1 + make_interval(hours => p_rollover_hour))
+                         AT TIME ZONE p_timezone;
+BEGIN
+  SELECT json_agg(row_data) INTO result FROM (
+    SELECT
+      t.id AS topic_id,
+      t.title AS topic_title,
+      COUNT(c.id) AS card_count,
+      COUNT(c.id) FILTER (WHERE NOT c.is_suspended
+                            AND ((c.card_state = 'review' AND c.due_date < day_end)
+                                 OR (c.card_state = 'relearning' AND c.due_date <= NOW()))
+                            AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS due_count,
+      COUNT(c.id) FILTER (WHERE c.card_state = 'new' AND NOT c.is_suspended
+                            AND (c.buried_until IS NULL OR c.buried_until <= NOW())) AS new_count,
+      COUNT(c.id) FILTER (WHERE c.card_state IN ('learning','relearning') AND NOT c.is_suspended) AS learning_count
+    FROM topics t
+    LEFT JOIN cards c ON c.topic_id = t.id
+    WHERE t.source_id = p_source_id
+    GROUP BY t.id, t.title
+    ORDER BY t.sequence_order
+  ) row_data;
+  RETURN COALESCE(result, '[]'::json);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_study_queue(
+  p_source_id BIGINT DEFAULT NULL,
+  p_topic_id BIGINT DEFAULT NULL,
+  p_due_only BOOLEAN DEFAULT FALSE,
+  p_review_order TEXT DEFAULT 'due',
+  p_timezone TEXT DEFAULT 'UTC',
+  p_rollover_hour INTEGER DEFAULT 0
+)
+RETURNS JSON AS $$
+DECLARE
+  day_start TIMESTAMPTZ;
+  day_end TIMESTAMPTZ;
+  new_limit INTEGER;
+  review_limit INTEGER;
+  new_done INTEGER;
+  reviews_done INTEGER;
+  result JSON;
+BEGIN
+  -- When the current study day began: its date at the rollover hour, in the user's timezone
+  day_start := (study_day(NOW(), p_timezone, p_rollover_hour) + make_interval(hours => p_rollover_hour))
+               AT TIME ZONE p_timezone;
+  day_end := (study_day(NOW(), p_timezone, p_rollover_hour) + 1 + make_interval(hours => p_rollover_hour))
+             AT TIME ZONE p_timezone;
+
+  -- Settings values are stored as JSON text
+  SELECT (value::jsonb #>> '{}')::numeric::integer INTO new_limit
+  FROM user_settings WHERE key = 'daily_new_card_limit';
+  SELECT (value::jsonb #>> '{}')::numeric::integer INTO review_limit
+  FROM user_settings WHERE key = 'daily_review_limit';
+
+  SELECT
+    COUNT(*) FILTER (WHERE previous_state = 'new'),
+    COUNT(*) FILTER (WHERE previous_state = 'review')
+  INTO new_done, reviews_done
+  FROM review_history
+  WHERE reviewed_at >= day_start AND NOT is_preview;
+
+  WITH scoped AS (
+    SELECT c.*, t.title AS topic_title, t.source_id, cs.filename AS source_filename
+    FROM cards c
+    JOIN topics t ON t.id = c.topic_id
+    JOIN content_sources cs ON cs.id = t.source_id
+    WHERE NOT c.is_suspended
+      AND (p_topic_id IS NULL OR c.topic_id = p_topic_id)
+      AND (p_source_id IS NULL OR t.source_id = p_source_id)
+  ),
+  learning AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY due_date) AS pos
+    FROM scoped
+    WHERE card_state IN ('learning','relearning')
+      AND (card_state = 'relearning' OR NOT p_due_only)
+      AND due_date <= NOW()
+  ),
+  review_pool AS (
+    SELECT id, topic_id, due_date, interval_days,
+           ROW_NUMBER() OVER (PARTITION BY topic_id ORDER BY due_date) AS topic_rank
+    FROM scoped
+    WHERE card_state = 'review'
+      AND due_date < day_end
+      AND (buried_until IS NULL OR buried_until <= NOW())
+  ),
+  reviews AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY
+      CASE p_review_order
+        WHEN 'overdue_ratio' THEN -(EXTRACT(EPOCH FROM NOW() - due_date) / 86400 / GREATEST(interval_days, 1))::double precision
+        WHEN 'random' THEN random()
+        WHEN 'interleave' THEN topic_rank::double precision
+        ELSE EXTRACT(EPOCH FROM due_date)::double precision
+      END, topic_id, due_date) AS pos
+    FROM review_pool
+  ),
+  new_pool AS (
+    SELECT id, topic_id, ROW_NUMBER() OVER (PARTITION BY topic_id ORDER BY id) AS topic_rank
+    FROM scoped
+    WHERE card_state = 'new'
+      AND NOT p_due_only
+      AND (buried_until IS NULL OR buried_until <= NOW())
+  ),
+  new_cards AS (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY
+      CASE p_review_order
+        WHEN 'random' THEN random()
+        WHEN 'interleave' THEN topic_rank::double precision
+        ELSE 0
+      END, topic_id, id) AS pos
+    FROM new_pool
+  ),
+  queue AS (
+    SELECT id, 1 AS bucket, pos FROM learning
+    UNION ALL
+    SELECT id, 2, pos FROM reviews WHERE pos <= GREATEST(COALESCE(review_limit, 200) - reviews_done, 0)
+    UNION ALL
+    SELECT id, 3, pos FROM new_cards WHERE pos <= GREATEST(COALESCE(new_limit, 20) - new_done, 0)
+  )
+  SELECT COALESCE(json_agg(to_jsonb(s) ORDER BY q.bucket, q.pos), '[]'::json) INTO result
+  FROM queue q
+  JOIN scoped s ON s.id = q.id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
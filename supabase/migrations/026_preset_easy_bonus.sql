@@ -0,0 +1,10 @@
+-- A preset's easy bonus is optional
+--
+-- easy_bonus used to be NOT NULL with a default of 1.3, so every preset
+-- overrode the global (or optimizer-fitted) SM-2 easy bonus, even when
+-- nobody had changed it. NULL now means the preset inherits the global
+-- value; presets still on the old default inherit from here on.
+
+ALTER TABLE deck_presets ALTER COLUMN easy_bonus DROP NOT NULL;
+ALTER TABLE deck_presets ALTER COLUMN easy_bonus DROP DEFAULT;
+UPDATE deck_presets SET easy_bonus = NULL WHERE easy_bonus = 1.3;